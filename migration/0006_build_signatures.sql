@@ -0,0 +1,14 @@
+-- Build signatures: store the updater signature produced at build time
+-- (e.g. the contents of a Tauri .sig file) next to the build's checksums.
+--
+-- Written into manifests as the `signature` build attribute and used by the
+-- Tauri updater feed, which requires a signature per platform.
+
+begin;
+
+alter table publisher.builds
+  add column if not exists signature text;
+
+comment on column publisher.builds.signature is 'Updater signature produced at build time (e.g. Tauri/minisign), base64 text';
+
+commit;
@@ -3,6 +3,8 @@
 -- Requires migrations:
 --   - 0001_initial.sql
 --   - 0002_release_channels.sql
+--   - 0003_multi_distribution_builds.sql
+--   - 0005_build_variants.sql (builds seed as the default variant)
 
 begin;
 
@@ -159,7 +161,7 @@ from build_rows br
 join publisher.versions av
   on av.version_name = br.version_name
  and av.release_channel = br.release_channel
-on conflict (version_id, os, arch, type, distribution)
+on conflict (version_id, os, arch, type, distribution, variant)
 do update set
   package_name = excluded.package_name,
   url = excluded.url,
@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { loadConfig } from './utils/config.js';
+import { defaultStorageCdnUrl } from './storage/index.js';
+import { isLocalDatabase, localDatabaseFile } from './db/index.js';
+import { createLocalClient } from './db/local.js';
+
+// Shared Supabase client and CDN base used by every command. The CLI builds them from
+// env/config (or a file-backed client when DATABASE_DRIVER=local); the SDK injects its
+// own with useClient.
+export let supabase: any = null;
+export let cdnUrl: string = '';
+
+export function useClient(client: any, baseUrl: string) {
+  supabase = client;
+  cdnUrl = baseUrl;
+}
+
+export function reinitSupabase(): boolean {
+  const cfg = loadConfig();
+
+  if (isLocalDatabase()) {
+    useClient(createLocalClient(localDatabaseFile()), process.env.CDN_URL || cfg.CDN_URL || defaultStorageCdnUrl() || '');
+    return true;
+  }
+
+  const url = process.env.SUPABASE_URL || cfg.SUPABASE_URL;
+  const anon = process.env.SUPABASE_ANON_KEY || cfg.SUPABASE_ANON_KEY;
+  const key = process.env.APP_PUBLISHER_KEY || cfg.APP_PUBLISHER_KEY;
+
+  if (!url || !anon || !key) {
+    useClient(null, '');
+    return false;
+  }
+
+  const resolved = url.replace(/\/$/, '');
+  const defaultCdn = `${resolved}/storage/v1/object/public/`;
+
+  useClient(
+    createClient(url, anon, {
+      db: { schema: 'publisher' },
+      global: {
+        headers: {
+          Authorization: `Bearer ${key}`,
+        },
+      },
+    }),
+    process.env.CDN_URL || cfg.CDN_URL || defaultStorageCdnUrl() || defaultCdn
+  );
+  return true;
+}
@@ -1,15 +1,24 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import prompts from 'prompts';
-import { readFileSync, statSync, createReadStream } from 'fs';
-import { basename } from 'path';
+import { existsSync, readFileSync, statSync, createReadStream } from 'fs';
+import { basename, resolve } from 'path';
+import { Readable } from 'stream';
+import { fileURLToPath } from 'url';
 import { createHash } from 'crypto';
 import mime from 'mime-types';
-import { supabase, cdnUrl } from '../index.js';
+import { glob } from 'glob';
+import semver from 'semver';
+import { supabase, cdnUrl } from '../client.js';
 import { generateManifest, generateLatestManifest } from './publish.js';
 import { assertValidPlatform, isSupportedDistribution, isValidVariant, SUPPORTED_DISTRIBUTIONS, DEFAULT_VARIANT } from '../utils/versioning.js';
-
-interface UploadBuildOptions {
+import { PublisherError, toErrorObject } from '../utils/errors.js';
+import { DEFAULT_FILENAME_PATTERN, parseBuildFilename, ParsedFilename } from '../utils/filenames.js';
+import { getProjectConfig } from '../utils/project.js';
+import { getStorage } from '../storage/index.js';
+import { canPrompt, emitError, emitResult, startSpinner } from '../ui/output.js';
+import { createTransferMeter, formatBytes } from '../ui/progress.js';
+
+export interface UploadBuildOptions {
   os?: string;
   arch?: string;
   type?: string;
@@ -17,50 +26,81 @@ interface UploadBuildOptions {
   distribution?: string;
   variant?: string;
   meta?: string[];
+  signature?: string;
+  signatureFile?: string;
 }
 
+// --meta entries over the project's default metadata
 function parseMetaEntries(entries?: string[] | null): Record<string, string> | null {
-  if (!entries || entries.length === 0) return null;
-  const out: Record<string, string> = {};
-  for (const entry of entries) {
+  const out: Record<string, string> = { ...(getProjectConfig().metadata || {}) };
+  for (const entry of entries || []) {
     const idx = entry.indexOf('=');
     if (idx <= 0) {
-      throw new Error(`Invalid --meta value: "${entry}". Expected format: key=value`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid --meta value: "${entry}". Expected format: key=value`);
     }
     const key = entry.slice(0, idx).trim();
     const value = entry.slice(idx + 1);
     if (!key) {
-      throw new Error(`Invalid --meta value: "${entry}". Key cannot be empty`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid --meta value: "${entry}". Key cannot be empty`);
     }
     out[key] = value;
   }
   return Object.keys(out).length > 0 ? out : null;
 }
 
-function parseFilename(filename: string): { os: string; arch: string; type: string } | null {
-  // {product}-{version}-{arch}-{os}.{ext}
-  const match = filename.match(/^[A-Za-z0-9_-]+-[0-9][0-9A-Za-z.+-]*-([A-Za-z0-9_]+)-([A-Za-z0-9_]+)\.(tar\.gz|zip|dmg|msi|AppImage|deb|rpm|apk)$/);
-
-  if (!match) return null;
+function filenamePattern(): string {
+  return getProjectConfig().filenamePattern || DEFAULT_FILENAME_PATTERN;
+}
 
-  const arch = match[1];
-  const os = match[2];
-  const ext = match[3];
+function parseFilename(filename: string): ParsedFilename | null {
+  return parseBuildFilename(filename, filenamePattern());
+}
 
-  const type = ['tar.gz', 'zip'].includes(ext) ? 'patch' : 'installer';
+/**
+ * Stream the file into storage, computing both checksums from the same read.
+ */
+async function storeFile(
+  storagePath: string,
+  filePath: string,
+  contentType: string,
+  onTransfer: (uploaded: number, total: number) => void
+): Promise<{ sha256: string; sha512: string }> {
+  const sha256 = createHash('sha256');
+  const sha512 = createHash('sha512');
+  const onData = (chunk: Buffer) => {
+    sha256.update(chunk);
+    sha512.update(chunk);
+  };
+
+  const storage = getStorage();
+  if (storage.uploadFile) {
+    await storage.uploadFile(storagePath, filePath, contentType, { onData, onProgress: onTransfer });
+  } else {
+    // Custom SDK drivers without uploadFile get the whole file in memory
+    const chunks: Buffer[] = [];
+    for await (const chunk of createReadStream(filePath)) {
+      onData(chunk);
+      chunks.push(chunk);
+    }
+    await storage.upload(storagePath, Buffer.concat(chunks), contentType);
+  }
 
-  return { os, arch, type };
+  return { sha256: sha256.digest('hex'), sha512: sha512.digest('hex') };
 }
 
-function calculateChecksum(filePath: string, algorithm: 'sha256' | 'sha512' = 'sha256'): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const hash = createHash(algorithm);
-    const stream = createReadStream(filePath);
-    
-    stream.on('data', (chunk) => hash.update(chunk));
-    stream.on('end', () => resolve(hash.digest('hex')));
-    stream.on('error', reject);
-  });
+/**
+ * Updater signature from --signature or the contents of --signature-file (e.g. a Tauri .sig file).
+ */
+function resolveSignature(options: { signature?: string; signatureFile?: string }): string | null {
+  if (options.signature && options.signatureFile) {
+    throw new PublisherError('INVALID_ARGUMENT', 'Use either --signature or --signature-file, not both');
+  }
+  if (options.signatureFile) {
+    const signature = readFileSync(options.signatureFile, 'utf8').trim();
+    if (!signature) throw new PublisherError('INVALID_ARGUMENT', `Signature file is empty: ${options.signatureFile}`);
+    return signature;
+  }
+  return options.signature?.trim() || null;
 }
 
 function getContentType(filePath: string): string {
@@ -78,119 +118,421 @@ function getContentType(filePath: string): string {
   return mime.lookup(filePath) || 'application/octet-stream';
 }
 
-function buildCdnUrl(baseUrl: string, storagePath: string): string {
+export function buildCdnUrl(baseUrl: string, storagePath: string): string {
   const normalizedBase = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
   const t = Date.now();
   return `${normalizedBase}archive/${storagePath}?t=${t}`;
 }
 
+/**
+ * Storage path inside the archive bucket for a CDN build URL, or null for external URLs.
+ */
+export function storagePathFromUrl(url: string): string | null {
+  const match = url.match(/\/archive\/([^?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+export interface UploadedBuild {
+  version: string;
+  channel: string;
+  os: string;
+  arch: string;
+  type: string;
+  distribution: string;
+  variant: string;
+  packageName: string;
+  url: string;
+  size: number;
+  sha256: string;
+  sha512: string;
+  signature: string | null;
+  metadata: Record<string, string> | null;
+}
+
+/**
+ * Upload an artifact into the version's storage prefix and upsert its build row.
+ * `onProgress` receives a short description of each step, `onTransfer` the bytes stored so far.
+ */
+export async function uploadBuildFile(
+  version: string,
+  filePath: string,
+  options: UploadBuildOptions,
+  onProgress: (step: string) => void = () => {},
+  onTransfer: (uploaded: number, total: number) => void = () => {}
+): Promise<UploadedBuild> {
+  const channel = options.channel || 'stable';
+  const distribution = options.distribution || 'direct';
+  const variant = options.variant || DEFAULT_VARIANT;
+
+  if (!isSupportedDistribution(distribution)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid distribution: ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
+  }
+
+  if (!isValidVariant(variant)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid variant: "${variant}". Must be alphanumeric, hyphens and underscores only (max 50 chars).`);
+  }
+
+  // Get version ID
+  const { data: versionData, error: versionError } = await supabase
+    .schema('publisher')
+    .from('versions')
+    .select('id, release_channel, storage_key_prefix')
+    .eq('version_name', version)
+    .eq('release_channel', channel)
+    .single();
+
+  if (versionError || !versionData) {
+    throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
+  }
+
+  const filename = basename(filePath);
+  const fileSize = statSync(filePath).size;
+  const mimeType = getContentType(filePath);
+
+  // Parse filename or use options
+  const parsed = parseFilename(filename);
+  const os = options.os || parsed?.os;
+  const arch = options.arch || parsed?.arch;
+  const type = options.type || parsed?.type;
+
+  if (!os || !arch || !type) {
+    throw new PublisherError(
+      'INVALID_ARGUMENT',
+      'Could not determine os/arch/type from filename. Please specify with --os, --arch, --type options.\n' +
+      `Expected filename format: ${filenamePattern()}`
+    );
+  }
+
+  assertValidPlatform(os, arch, type);
+
+  const customMeta = parseMetaEntries(options.meta);
+  const signature = resolveSignature(options);
+
+  onProgress(`Uploading ${filename} to storage...`);
+
+  // Upload to storage
+  const storagePrefix = versionData.storage_key_prefix || `releases/${versionData.release_channel}/${version}`;
+  const storagePath = `${storagePrefix}/${os}/${arch}/${filename}`;
+  const { sha256, sha512 } = await storeFile(storagePath, filePath, mimeType, onTransfer);
+
+  onProgress('Updating database...');
+
+  // Insert/update platform build record
+  const buildUrl = buildCdnUrl(cdnUrl, storagePath);
+  const { error: dbError } = await supabase
+    .schema('publisher')
+    .from('builds')
+    .upsert({
+      version_id: versionData.id,
+      os,
+      arch,
+      type,
+      distribution,
+      variant,
+      package_name: filename,
+      url: buildUrl,
+      size: fileSize,
+      sha256_checksum: sha256,
+      sha512_checksum: sha512,
+      ...(signature ? { signature } : {}),
+      ...(customMeta ? { platform_metadata: { custom: customMeta } } : {})
+    }, {
+      onConflict: 'version_id,os,arch,type,distribution,variant'
+    });
+
+  if (dbError) throw dbError;
+
+  return {
+    version,
+    channel: versionData.release_channel,
+    os,
+    arch,
+    type,
+    distribution,
+    variant,
+    packageName: filename,
+    url: buildUrl,
+    size: fileSize,
+    sha256,
+    sha512,
+    signature,
+    metadata: customMeta,
+  };
+}
+
 export async function uploadBuild(version: string, filePath: string, options: UploadBuildOptions) {
-  const spinner = ora('Uploading build...').start();
+  const spinner = startSpinner('Uploading build...');
 
   try {
-    const channel = options.channel || 'stable';
+    const filename = basename(filePath);
+    let meter: ((done: number) => string) | null = null;
+    const build = await uploadBuildFile(version, filePath, options, step => { spinner.text = step; }, (uploaded, total) => {
+      meter ??= createTransferMeter(total);
+      spinner.text = `Uploading ${filename} ${meter(uploaded)}`;
+    });
+
+    spinner.succeed(chalk.green(`✓ Build uploaded successfully`));
+    console.log(chalk.gray(`  Version: ${version}`));
+    console.log(chalk.gray(`  Channel: ${build.channel}`));
+    console.log(chalk.gray(`  Platform: ${build.os}/${build.arch}`));
+    console.log(chalk.gray(`  Type: ${build.type} (${build.distribution}) [variant: ${build.variant}]`));
+    console.log(chalk.gray(`  Size: ${(build.size / 1024 / 1024).toFixed(2)} MB`));
+    console.log(chalk.gray(`  SHA256: ${build.sha256}`));
+    console.log(chalk.gray(`  SHA512: ${build.sha512.substring(0, 32)}...`));
+    if (build.signature) {
+      console.log(chalk.gray(`  Signature: ${build.signature.substring(0, 32)}...`));
+    }
+    console.log(chalk.gray(`  URL: ${build.url}`));
+
+    emitResult(build);
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to upload build: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+export interface UploadDirOptions {
+  channel?: string;
+  distribution?: string;
+  variant?: string;
+  meta?: string[];
+  pattern?: string;
+  concurrency?: string;
+  strict?: boolean;
+  dryRun?: boolean;
+}
+
+export interface PlannedUpload {
+  // Relative to the directory
+  file: string;
+  path: string;
+  os: string;
+  arch: string;
+  type: string;
+  size: number;
+  signatureFile: string | null;
+}
+
+export interface SkippedFile {
+  file: string;
+  reason: string;
+}
+
+const DEFAULT_UPLOAD_CONCURRENCY = 3;
+const MAX_UPLOAD_CONCURRENCY = 16;
+const SIGNATURE_SUFFIX = '.sig';
+
+/**
+ * Resolve every file under `dir` to a platform before anything is uploaded. Updater
+ * signatures next to an artifact (`<file>.sig`) are attached to it rather than skipped.
+ * Two files for the same os/arch/type would overwrite each other, so that is an error.
+ */
+export async function planDirectoryUpload(dir: string, pattern: string = '**/*'): Promise<{ planned: PlannedUpload[]; skipped: SkippedFile[] }> {
+  const root = resolve(dir);
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new PublisherError('FILE_NOT_FOUND', `Directory not found: ${dir}`);
+  }
+
+  const files = (await glob(pattern, { cwd: root, nodir: true, dot: false })).sort();
+  const fileSet = new Set(files);
+  const planned: PlannedUpload[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const file of files) {
+    if (file.endsWith(SIGNATURE_SUFFIX) && fileSet.has(file.slice(0, -SIGNATURE_SUFFIX.length))) continue;
+
+    const parsed = parseFilename(basename(file));
+    if (!parsed) {
+      skipped.push({ file, reason: `does not match ${filenamePattern()}` });
+      continue;
+    }
+    try {
+      assertValidPlatform(parsed.os, parsed.arch, parsed.type);
+    } catch (error: any) {
+      skipped.push({ file, reason: error.message });
+      continue;
+    }
+
+    const path = resolve(root, file);
+    planned.push({
+      file,
+      path,
+      ...parsed,
+      size: statSync(path).size,
+      signatureFile: fileSet.has(file + SIGNATURE_SUFFIX) ? resolve(root, file + SIGNATURE_SUFFIX) : null,
+    });
+  }
+
+  const byPlatform = new Map<string, string[]>();
+  for (const entry of planned) {
+    const key = `${entry.os}/${entry.arch}/${entry.type}`;
+    byPlatform.set(key, [...(byPlatform.get(key) || []), entry.file]);
+  }
+  const duplicates = [...byPlatform.entries()].filter(([, names]) => names.length > 1);
+  if (duplicates.length > 0) {
+    throw new PublisherError(
+      'INVALID_ARGUMENT',
+      `Several files resolve to the same platform: ${duplicates.map(([key, names]) => `${key} (${names.join(', ')})`).join('; ')}`,
+      { duplicates: Object.fromEntries(duplicates) }
+    );
+  }
+
+  return { planned, skipped };
+}
+
+// Runs fn over items with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function printPlan(version: string, channel: string, planned: PlannedUpload[], skipped: SkippedFile[]) {
+  const rows = [
+    ['FILE', 'OS', 'ARCH', 'TYPE', 'SIZE'],
+    ...planned.map(entry => [entry.file + (entry.signatureFile ? ' (+sig)' : ''), entry.os, entry.arch, entry.type, formatBytes(entry.size)]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const total = planned.reduce((sum, entry) => sum + entry.size, 0);
+
+  console.log(chalk.bold(`\nUpload plan for ${version} (${channel}): ${planned.length} file(s), ${formatBytes(total)}`));
+  rows.forEach((row, index) => {
+    const line = `  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`;
+    console.log(index === 0 ? chalk.gray(line) : line);
+  });
+
+  if (skipped.length > 0) {
+    console.log(chalk.yellow(`\nSkipping ${skipped.length} file(s):`));
+    for (const entry of skipped) {
+      console.log(chalk.gray(`  ${entry.file} — ${entry.reason}`));
+    }
+  }
+  console.log('');
+}
+
+export async function uploadBuildDirectory(version: string, dir: string, options: UploadDirOptions) {
+  const channel = options.channel || 'stable';
+  const concurrency = options.concurrency !== undefined ? Number(options.concurrency) : DEFAULT_UPLOAD_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_UPLOAD_CONCURRENCY) {
+    console.error(chalk.red(`❌ --concurrency must be a whole number from 1 to ${MAX_UPLOAD_CONCURRENCY}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `--concurrency must be a whole number from 1 to ${MAX_UPLOAD_CONCURRENCY}`));
+    process.exit(1);
+  }
+
+  const spinner = startSpinner(`Scanning ${dir}...`);
+
+  try {
+    // Options shared by every file: reject them once rather than as N identical failures
     const distribution = options.distribution || 'direct';
     const variant = options.variant || DEFAULT_VARIANT;
-
     if (!isSupportedDistribution(distribution)) {
-      throw new Error(`Invalid distribution: ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid distribution: ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
     }
-
     if (!isValidVariant(variant)) {
-      throw new Error(`Invalid variant: "${variant}". Must be alphanumeric, hyphens and underscores only (max 50 chars).`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid variant: "${variant}". Must be alphanumeric, hyphens and underscores only (max 50 chars).`);
+    }
+    parseMetaEntries(options.meta);
+
+    const { planned, skipped } = await planDirectoryUpload(dir, options.pattern);
+    if (options.strict && skipped.length > 0) {
+      throw new PublisherError(
+        'INVALID_ARGUMENT',
+        `${skipped.length} file(s) in ${dir} do not resolve to a platform (--strict): ${skipped.map(entry => entry.file).join(', ')}`,
+        { skipped }
+      );
+    }
+    if (planned.length === 0) {
+      throw new PublisherError('FILE_NOT_FOUND', `No build files in ${dir} match ${filenamePattern()}`, { skipped });
     }
 
-    // Get version ID
+    // Fail before the first upload rather than once per file
     const { data: versionData, error: versionError } = await supabase
       .schema('publisher')
       .from('versions')
-      .select('id, release_channel, storage_key_prefix')
+      .select('id')
       .eq('version_name', version)
       .eq('release_channel', channel)
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
-    }
-
-    const filename = basename(filePath);
-    const fileBuffer = readFileSync(filePath);
-    const fileSize = statSync(filePath).size;
-    const mimeType = getContentType(filePath);
-
-    // Calculate checksums
-    spinner.text = 'Calculating checksums...';
-    const sha256 = await calculateChecksum(filePath, 'sha256');
-    const sha512 = await calculateChecksum(filePath, 'sha512');
-
-    // Parse filename or use options
-    const parsed = parseFilename(filename);
-    const os = options.os || parsed?.os;
-    const arch = options.arch || parsed?.arch;
-    const type = options.type || parsed?.type;
-
-    if (!os || !arch || !type) {
-      throw new Error(
-        'Could not determine os/arch/type from filename. Please specify with --os, --arch, --type options.\n' +
-        'Expected filename format: {product}-{version}-{arch}-{os}.{ext}'
-      );
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
-    assertValidPlatform(os, arch, type);
-
-    const customMeta = parseMetaEntries(options.meta);
-
-    spinner.text = `Uploading ${filename} to storage...`;
+    spinner.stop();
+    printPlan(version, channel, planned, skipped);
 
-    // Upload to storage
-    const storagePrefix = versionData.storage_key_prefix || `releases/${versionData.release_channel}/${version}`;
-    const storagePath = `${storagePrefix}/${os}/${arch}/${filename}`;
-    const { error: uploadError } = await supabase.storage
-      .from('archive')
-      .upload(storagePath, fileBuffer, {
-        contentType: mimeType,
-        upsert: true
-      });
+    if (options.dryRun) {
+      console.log(chalk.gray('Dry run: nothing was uploaded'));
+      emitResult({ version, channel, dryRun: true, planned, skipped });
+      return;
+    }
 
-    if (uploadError) throw uploadError;
+    let done = 0;
+    // Bytes stored per file, summed into one bar for the whole directory
+    const transferred = new Map<string, number>();
+    const meter = createTransferMeter(planned.reduce((sum, entry) => sum + entry.size, 0));
+    const render = () => {
+      const bytes = [...transferred.values()].reduce((sum, value) => sum + value, 0);
+      spinner.text = `Uploading ${done}/${planned.length} ${meter(bytes)}`;
+    };
+
+    spinner.start(`Uploading 0/${planned.length}...`);
+    const results = await mapWithConcurrency(planned, concurrency, async entry => {
+      try {
+        const build = await uploadBuildFile(version, entry.path, {
+          os: entry.os,
+          arch: entry.arch,
+          type: entry.type,
+          channel,
+          distribution,
+          variant,
+          meta: options.meta,
+          signatureFile: entry.signatureFile ?? undefined,
+        }, undefined, uploaded => {
+          transferred.set(entry.file, uploaded);
+          render();
+        });
+        return { file: entry.file, build, error: null };
+      } catch (error: any) {
+        return { file: entry.file, build: null, error };
+      } finally {
+        done++;
+        render();
+      }
+    });
+    spinner.stop();
 
-    spinner.text = 'Updating database...';
+    for (const result of results) {
+      if (result.build) {
+        console.log(`  ${chalk.green('✓')} ${result.file} ${chalk.gray(`→ ${result.build.os}/${result.build.arch} (${result.build.type})`)}`);
+      } else {
+        console.log(`  ${chalk.red('✗')} ${result.file} ${chalk.red(result.error.message)}`);
+      }
+    }
 
-    // Insert/update platform build record
-    const buildUrl = buildCdnUrl(cdnUrl, storagePath);
-    const { error: dbError } = await supabase
-      .schema('publisher')
-      .from('builds')
-      .upsert({
-        version_id: versionData.id,
-        os,
-        arch,
-        type,
-        distribution,
-        variant,
-        package_name: filename,
-        url: buildUrl,
-        size: fileSize,
-        sha256_checksum: sha256,
-        sha512_checksum: sha512,
-        ...(customMeta ? { platform_metadata: { custom: customMeta } } : {})
-      }, {
-        onConflict: 'version_id,os,arch,type,distribution,variant'
-      });
+    const uploaded = results.filter(result => result.build).map(result => result.build!);
+    const failed = results.filter(result => result.error).map(result => ({ file: result.file, error: toErrorObject(result.error) }));
 
-    if (dbError) throw dbError;
+    console.log('');
+    if (failed.length > 0) {
+      console.log(chalk.red(`${failed.length} of ${planned.length} upload(s) failed`));
+      emitError(new PublisherError('UPLOAD_FAILED', `${failed.length} of ${planned.length} upload(s) failed`, { uploaded, failed, skipped }));
+      process.exit(1);
+    }
 
-    spinner.succeed(chalk.green(`✓ Build uploaded successfully`));
-    console.log(chalk.gray(`  Version: ${version}`));
-    console.log(chalk.gray(`  Channel: ${versionData.release_channel}`));
-    console.log(chalk.gray(`  Platform: ${os}/${arch}`));
-    console.log(chalk.gray(`  Type: ${type} (${distribution}) [variant: ${variant}]`));
-    console.log(chalk.gray(`  Size: ${(fileSize / 1024 / 1024).toFixed(2)} MB`));
-    console.log(chalk.gray(`  SHA256: ${sha256}`));
-    console.log(chalk.gray(`  SHA512: ${sha512.substring(0, 32)}...`));
-    console.log(chalk.gray(`  URL: ${buildUrl}`));
+    console.log(chalk.green(`✓ Uploaded ${uploaded.length} build(s)`));
+    emitResult({ version, channel, uploaded, skipped });
   } catch (error: any) {
-    spinner.fail(chalk.red(`Failed to upload build: ${error.message}`));
+    spinner.fail(chalk.red(`Failed to upload directory: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -201,22 +543,23 @@ export async function createBuild(
   arch: string,
   type: string,
   url: string,
-  options: { size?: number; sha256?: string; sha512?: string; packageName?: string; channel?: string; distribution?: string; variant?: string; meta?: string[] }
+  options: { size?: number; sha256?: string; sha512?: string; packageName?: string; channel?: string; distribution?: string; variant?: string; meta?: string[]; signature?: string; signatureFile?: string }
 ) {
-  const spinner = ora('Creating build record...').start();
+  const spinner = startSpinner('Creating build record...');
 
   try {
     const channel = options.channel || 'stable';
     const distribution = options.distribution || 'store';
     const variant = options.variant || DEFAULT_VARIANT;
     const customMeta = parseMetaEntries(options.meta);
+    const signature = resolveSignature(options);
 
     if (!isSupportedDistribution(distribution)) {
-      throw new Error(`Invalid distribution: ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid distribution: ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
     }
 
     if (!isValidVariant(variant)) {
-      throw new Error(`Invalid variant: "${variant}". Must be alphanumeric, hyphens and underscores only (max 50 chars).`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid variant: "${variant}". Must be alphanumeric, hyphens and underscores only (max 50 chars).`);
     }
 
     // Get version ID
@@ -229,12 +572,12 @@ export async function createBuild(
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
     // Validate required fields
     if (!os || !arch || !type || !url) {
-      throw new Error('Missing required fields: os, arch, type, url');
+      throw new PublisherError('INVALID_ARGUMENT', 'Missing required fields: os, arch, type, url');
     }
 
     assertValidPlatform(os, arch, type);
@@ -260,6 +603,7 @@ export async function createBuild(
         size: options.size || 0,
         sha256_checksum: options.sha256 || '',
         sha512_checksum: options.sha512 || '',
+        ...(signature ? { signature } : {}),
         platform_metadata: {
           external: distribution === 'store',
           source: 'manual',
@@ -284,14 +628,59 @@ export async function createBuild(
     if (options.sha256) {
       console.log(chalk.gray(`  SHA256: ${options.sha256}`));
     }
+    if (signature) {
+      console.log(chalk.gray(`  Signature: ${signature.substring(0, 32)}...`));
+    }
+
+    emitResult({
+      version,
+      channel: versionData.release_channel,
+      os,
+      arch,
+      type,
+      distribution,
+      variant,
+      packageName,
+      url,
+      size: options.size || 0,
+      sha256: options.sha256 || null,
+      sha512: options.sha512 || null,
+      signature,
+      metadata: customMeta,
+    });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to create build: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
+/**
+ * JSON shape of a build row for --json output.
+ */
+function toBuildJson(build: any) {
+  return {
+    id: build.id,
+    os: build.os,
+    arch: build.arch,
+    type: build.type,
+    distribution: build.distribution || 'direct',
+    variant: build.variant || DEFAULT_VARIANT,
+    packageName: build.package_name,
+    url: build.url,
+    size: build.size,
+    sha256: build.sha256_checksum || null,
+    sha512: build.sha512_checksum || null,
+    signature: build.signature || null,
+    external: !!build.platform_metadata?.external,
+    fallbackFrom: build.platform_metadata?.fallback_from ?? null,
+    metadata: build.platform_metadata?.custom ?? null,
+    createdAt: build.created_at,
+  };
+}
+
 export async function listBuilds(version: string, options: { channel?: string }) {
-  const spinner = ora(`Fetching builds for ${version}...`).start();
+  const spinner = startSpinner(`Fetching builds for ${version}...`);
 
   try {
     const channel = options.channel || 'stable';
@@ -305,7 +694,7 @@ export async function listBuilds(version: string, options: { channel?: string })
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
     const { data, error } = await supabase
@@ -320,6 +709,12 @@ export async function listBuilds(version: string, options: { channel?: string })
 
     spinner.stop();
 
+    emitResult({
+      version,
+      channel: versionData.release_channel,
+      builds: (data || []).map(toBuildJson),
+    });
+
     if (!data || data.length === 0) {
       console.log(chalk.yellow(`No builds found for version ${version}`));
       return;
@@ -330,13 +725,15 @@ export async function listBuilds(version: string, options: { channel?: string })
       const external = build.platform_metadata?.external ? chalk.blue(' [EXTERNAL]') : '';
       const sizeMB = build.size ? (build.size / 1024 / 1024).toFixed(2) : '0.00';
       const variantLabel = build.variant && build.variant !== 'default' ? chalk.cyan(` [${build.variant}]`) : '';
-      console.log(`  ${chalk.bold(`${build.os}/${build.arch}`)} (${build.type}/${build.distribution || 'direct'})${variantLabel}${external}`);
+      const signed = build.signature ? chalk.green(' [SIGNED]') : '';
+      console.log(`  ${chalk.bold(`${build.os}/${build.arch}`)} (${build.type}/${build.distribution || 'direct'})${variantLabel}${external}${signed}`);
       console.log(chalk.gray(`    Package: ${build.package_name}`));
       console.log(chalk.gray(`    Size: ${sizeMB} MB`));
       console.log(chalk.gray(`    URL: ${build.url}`));
     });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to list builds: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -349,7 +746,7 @@ export async function deleteBuild(
   options: { channel?: string; distribution?: string; variant?: string; yes?: boolean }
 ) {
   const channel = options.channel || 'stable';
-  const spinner = ora(`Looking up build ${os}/${arch}/${type} for ${version} (${channel})...`).start();
+  const spinner = startSpinner(`Looking up build ${os}/${arch}/${type} for ${version} (${channel})...`);
 
   try {
     // Resolve version record
@@ -362,7 +759,7 @@ export async function deleteBuild(
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
     // Find the matching build(s)
@@ -387,8 +784,7 @@ export async function deleteBuild(
     if (buildsError) throw buildsError;
 
     if (!builds || builds.length === 0) {
-      spinner.fail(chalk.red(`No matching build found for ${os}/${arch}/${type} in ${version} (${channel})`));
-      process.exit(1);
+      throw new PublisherError('BUILD_NOT_FOUND', `No matching build found for ${os}/${arch}/${type} in ${version} (${channel})`);
     }
 
     spinner.stop();
@@ -413,6 +809,9 @@ export async function deleteBuild(
         console.log(chalk.gray(`  - version_id=${b.version_id} | ${b.os}/${b.arch}/${b.type}/${b.distribution || 'direct'}`));
       });
       console.log(chalk.yellow('\n  Delete or reassign those fallback builds before deleting this build.'));
+      emitError(new PublisherError('CONFLICT', `Build is referenced as a fallback by ${conflicts.length} build(s) in other versions`, {
+        dependents: conflicts.map((b: any) => ({ versionId: b.version_id, os: b.os, arch: b.arch, type: b.type, distribution: b.distribution || 'direct' })),
+      }));
       process.exit(1);
     }
 
@@ -428,6 +827,9 @@ export async function deleteBuild(
     });
 
     if (!options.yes) {
+      if (!canPrompt()) {
+        throw new PublisherError('CONFIRMATION_REQUIRED', 'Delete confirmation requires an interactive terminal. Pass --yes to delete headlessly');
+      }
       const response = await prompts({
         type: 'confirm',
         name: 'confirm',
@@ -441,15 +843,15 @@ export async function deleteBuild(
       }
     }
 
-    const deleteSpinner = ora(`Deleting ${builds.length} build(s)...`).start();
+    const deleteSpinner = startSpinner(`Deleting ${builds.length} build(s)...`);
 
     for (const build of builds) {
       // Remove from CDN storage unless the build is external
       if (!build.platform_metadata?.external && build.url) {
         try {
-          const archiveMatch = build.url.match(/\/archive\/(.+)$/);
-          if (archiveMatch) {
-            await supabase.storage.from('archive').remove([archiveMatch[1]]);
+          const storagePath = storagePathFromUrl(build.url);
+          if (storagePath) {
+            await getStorage().remove([storagePath]);
           }
         } catch {
           // Non-fatal: continue even if storage delete fails
@@ -467,19 +869,322 @@ export async function deleteBuild(
 
     deleteSpinner.succeed(chalk.green(`✓ Deleted ${builds.length} build(s) from ${version} (${channel})`));
 
+    let manifestsRegenerated = false;
+    let regenerationError: string | null = null;
     if (versionData.is_published) {
-      const regenSpinner = ora('Regenerating manifests...').start();
+      const regenSpinner = startSpinner('Regenerating manifests...');
       try {
         await generateManifest(version, { showSpinner: false, channel });
         await generateLatestManifest(channel);
+        manifestsRegenerated = true;
         regenSpinner.succeed(chalk.green(`✓ Manifests regenerated for ${channel} channel`));
       } catch (regenError: any) {
+        regenerationError = regenError.message;
         regenSpinner.warn(chalk.yellow(`⚠ Build deleted but manifest regeneration failed: ${regenError.message}`));
         console.log(chalk.gray('  Run: publisher manifest:generate ' + version + ' --channel ' + channel));
       }
     }
+
+    emitResult({
+      version,
+      channel,
+      deleted: builds.map(toBuildJson),
+      manifestsRegenerated,
+      regenerationError,
+    });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to delete build: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+export interface VerifyBuildsOptions {
+  channel?: string;
+  all?: boolean;
+  fillMissing?: boolean;
+}
+
+type VerifyStatus = 'ok' | 'mismatch' | 'not-found' | 'unreachable' | 'missing' | 'filled';
+type VerifiedField = 'size' | 'sha256' | 'sha512';
+
+interface ServedFile {
+  size: number;
+  sha256: string;
+  sha512: string;
+  contentType: string | null;
+}
+
+interface BuildVerification {
+  version: string;
+  os: string;
+  arch: string;
+  type: string;
+  distribution: string;
+  variant: string;
+  url: string;
+  status: VerifyStatus;
+  detail: string;
+  // Recorded fields that differ from what the URL serves
+  mismatched: VerifiedField[];
+  // Recorded fields that were empty (and written with --fill-missing)
+  missing: VerifiedField[];
+  served: ServedFile | null;
+}
+
+const VERIFY_CONCURRENCY = 3;
+// A download that delivers nothing for this long is given up, so a stalled CDN cannot hang the run
+const VERIFY_STALL_TIMEOUT_MS = 60 * 1000;
+const VERIFY_FAILURES: VerifyStatus[] = ['mismatch', 'not-found', 'unreachable'];
+
+class ServedFileError extends Error {
+  constructor(public status: 'not-found' | 'unreachable', message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Download a build URL and hash it as it streams in. file:// URLs come from the local
+ * storage driver's default CDN base.
+ */
+async function hashServedFile(url: string): Promise<ServedFile> {
+  let body: Readable;
+  let contentType: string | null = null;
+
+  if (url.startsWith('file:')) {
+    const path = fileURLToPath(url.split('?')[0]);
+    if (!existsSync(path)) throw new ServedFileError('not-found', `${path} does not exist`);
+    body = createReadStream(path);
+  } else {
+    const controller = new AbortController();
+    let stallTimer: NodeJS.Timeout | undefined;
+    const armStallTimer = () => {
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => controller.abort(new Error(`No data for ${VERIFY_STALL_TIMEOUT_MS / 1000}s`)), VERIFY_STALL_TIMEOUT_MS);
+    };
+    armStallTimer();
+
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: controller.signal });
+    } catch (error: any) {
+      clearTimeout(stallTimer);
+      throw new ServedFileError('unreachable', controller.signal.aborted ? controller.signal.reason.message : error.cause?.message || error.message);
+    }
+    if (!response.ok || !response.body) {
+      clearTimeout(stallTimer);
+      await response.body?.cancel();
+      throw new ServedFileError(response.status === 404 || response.status === 410 ? 'not-found' : 'unreachable', `HTTP ${response.status}`);
+    }
+    contentType = response.headers.get('content-type');
+    body = Readable.fromWeb(response.body as any)
+      .on('data', armStallTimer)
+      .on('close', () => clearTimeout(stallTimer));
+  }
+
+  const sha256 = createHash('sha256');
+  const sha512 = createHash('sha512');
+  let size = 0;
+  try {
+    for await (const chunk of body) {
+      sha256.update(chunk);
+      sha512.update(chunk);
+      size += chunk.length;
+    }
+  } catch (error: any) {
+    throw new ServedFileError('unreachable', `Download interrupted: ${error.message}`);
+  }
+  return { size, sha256: sha256.digest('hex'), sha512: sha512.digest('hex'), contentType };
+}
+
+function servesPage(served: ServedFile | null): boolean {
+  return !!served?.contentType?.startsWith('text/html');
+}
+
+async function verifyBuild(build: any, version: string, fillMissing: boolean): Promise<BuildVerification> {
+  const result: BuildVerification = {
+    version,
+    os: build.os,
+    arch: build.arch,
+    type: build.type,
+    distribution: build.distribution || 'direct',
+    variant: build.variant || DEFAULT_VARIANT,
+    url: build.url,
+    status: 'ok',
+    detail: '',
+    mismatched: [],
+    missing: [],
+    served: null,
+  };
+
+  try {
+    result.served = await hashServedFile(build.url);
+  } catch (error: any) {
+    if (error instanceof ServedFileError) {
+      return { ...result, status: error.status, detail: error.message };
+    }
+    throw error;
+  }
+
+  const served = result.served;
+  const recorded: Record<VerifiedField, string | number | null> = {
+    size: build.size || null,
+    sha256: build.sha256_checksum || null,
+    sha512: build.sha512_checksum || null,
+  };
+  for (const field of ['size', 'sha256', 'sha512'] as VerifiedField[]) {
+    if (recorded[field] === null) {
+      result.missing.push(field);
+    } else if (recorded[field] !== served[field]) {
+      result.mismatched.push(field);
+    }
+  }
+
+  if (result.mismatched.length > 0) {
+    const details = result.mismatched.map(field =>
+      field === 'size' ? `size ${recorded.size} ≠ ${served.size}` : `${field} ${String(recorded[field]).slice(0, 12)}… ≠ ${String(served[field]).slice(0, 12)}…`
+    );
+    return { ...result, status: 'mismatch', detail: details.join(', ') };
+  }
+  if (result.missing.length === 0) {
+    return { ...result, detail: `${formatBytes(served.size)}, size and checksums match` };
+  }
+  // A URL that answers with a web page (a store listing, a download portal) would record the page's hash
+  if (servesPage(served)) {
+    return { ...result, status: 'missing', detail: `no ${result.missing.join('/')} recorded; the URL serves an HTML page, not a file` };
+  }
+  if (!fillMissing) {
+    return { ...result, status: 'missing', detail: `no ${result.missing.join('/')} recorded` };
+  }
+
+  const patch: Record<string, string | number> = {};
+  if (result.missing.includes('size')) patch.size = served.size;
+  if (result.missing.includes('sha256')) patch.sha256_checksum = served.sha256;
+  if (result.missing.includes('sha512')) patch.sha512_checksum = served.sha512;
+
+  const { error } = await supabase
+    .schema('publisher')
+    .from('builds')
+    .update(patch)
+    .eq('id', build.id);
+
+  if (error) throw error;
+  return { ...result, status: 'filled', detail: `recorded ${result.missing.join('/')} from the served file` };
+}
+
+const VERIFY_ICON: Record<VerifyStatus, string> = {
+  ok: chalk.green('✓'),
+  filled: chalk.green('✓'),
+  mismatch: chalk.red('✗'),
+  'not-found': chalk.red('✗'),
+  unreachable: chalk.red('✗'),
+  missing: chalk.yellow('!'),
+};
+
+export async function verifyBuilds(version: string | undefined, options: VerifyBuildsOptions) {
+  if (!version === !options.all) {
+    console.error(chalk.red('❌ Pass a version or --all (not both)'));
+    emitError(new PublisherError('INVALID_ARGUMENT', 'Pass a version or --all (not both)'));
+    process.exit(1);
+  }
+
+  const channel = options.channel || 'stable';
+  const spinner = startSpinner(version ? `Fetching builds for ${version}...` : `Fetching builds for ${channel}...`);
+
+  try {
+    let query = supabase
+      .schema('publisher')
+      .from('versions')
+      .select('id, version_name')
+      .eq('release_channel', channel);
+    if (version) {
+      query = query.eq('version_name', version);
+    }
+    const { data: versions, error: versionError } = await query;
+
+    if (versionError) throw versionError;
+    if (version && (!versions || versions.length === 0)) {
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
+    }
+
+    const versionNames = new Map<string, string>((versions || []).map((row: any) => [row.id, row.version_name]));
+    const { data: builds, error: buildsError } = versionNames.size === 0
+      ? { data: [], error: null }
+      : await supabase
+        .schema('publisher')
+        .from('builds')
+        .select('*')
+        .in('version_id', [...versionNames.keys()])
+        .order('os', { ascending: true })
+        .order('arch', { ascending: true });
+
+    if (buildsError) throw buildsError;
+
+    let done = 0;
+    spinner.text = `Verifying 0/${builds.length} build(s)...`;
+    const results = await mapWithConcurrency(builds as any[], VERIFY_CONCURRENCY, async build => {
+      const result = await verifyBuild(build, versionNames.get(build.version_id)!, !!options.fillMissing);
+      spinner.text = `Verifying ${++done}/${builds.length} build(s)...`;
+      return result;
+    });
+    spinner.stop();
+
+    if (results.length === 0) {
+      console.log(chalk.yellow(version ? `No builds found for version ${version}` : `No builds found in ${channel}`));
+    }
+
+    const byVersion = new Map<string, BuildVerification[]>();
+    for (const result of results) {
+      byVersion.set(result.version, [...(byVersion.get(result.version) || []), result]);
+    }
+    for (const [name, entries] of [...byVersion.entries()].sort(([a], [b]) => semver.rcompare(a, b))) {
+      console.log(chalk.bold(`\n${name} (${channel}):`));
+      for (const entry of entries) {
+        const variantLabel = entry.variant !== DEFAULT_VARIANT ? ` [${entry.variant}]` : '';
+        const label = `${entry.os}/${entry.arch} (${entry.type}/${entry.distribution})${variantLabel}`;
+        const detail = VERIFY_FAILURES.includes(entry.status) ? chalk.red(entry.detail) : chalk.gray(entry.detail);
+        console.log(`  ${VERIFY_ICON[entry.status]} ${label} ${chalk.gray('—')} ${detail}`);
+        if (VERIFY_FAILURES.includes(entry.status)) {
+          console.log(chalk.gray(`      ${entry.url}`));
+        }
+      }
+    }
+
+    const count = (status: VerifyStatus) => results.filter(result => result.status === status).length;
+    const summary = {
+      ok: count('ok'),
+      mismatch: count('mismatch'),
+      notFound: count('not-found'),
+      unreachable: count('unreachable'),
+      missing: count('missing'),
+      filled: count('filled'),
+    };
+    const failed = results.filter(result => VERIFY_FAILURES.includes(result.status));
+
+    console.log('');
+    const pages = results.filter(result => result.status === 'missing' && servesPage(result.served)).length;
+    if (summary.missing - pages > 0) {
+      console.log(chalk.yellow(`${summary.missing - pages} build(s) have no recorded checksums. Run with --fill-missing to store them`));
+    }
+    if (pages > 0) {
+      console.log(chalk.yellow(`${pages} build(s) have no recorded checksums and link to HTML pages (such as store listings), so none can be recorded`));
+    }
+    if (summary.filled > 0) {
+      console.log(chalk.green(`Recorded checksums for ${summary.filled} build(s). Regenerate the manifests of published versions: publisher manifest:generate <version>`));
+    }
+    if (failed.length > 0) {
+      console.log(chalk.red(`${failed.length} build(s) failed verification`));
+      emitError(new PublisherError('CHECKS_FAILED', `${failed.length} build(s) failed verification`, { channel, summary, builds: results }));
+      process.exit(1);
+    }
+    if (results.length > 0) {
+      console.log(chalk.green(`✓ ${results.length - summary.missing} build(s) verified`));
+    }
+
+    emitResult({ channel, summary, builds: results });
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to verify builds: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
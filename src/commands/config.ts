@@ -1,32 +1,105 @@
-import ora from 'ora';
 import chalk from 'chalk';
+import prompts from 'prompts';
 import {
   loadConfig,
   setConfigValue,
   deleteConfigValue,
   clearConfig,
   getConfigPath,
-  configExists
+  configExists,
+  setChannelSetting,
+  DEFAULT_PROFILE,
+  getActiveProfile,
+  listProfiles,
+  loadProfileValues,
+  SECRET_CONFIG_KEYS,
+  getLockedKeys,
+  isConfigEncrypted,
+  isConfigLocked,
+  unlockConfig,
+  rekeyConfig,
 } from '../utils/config.js';
+import {
+  ANY_CHANNEL,
+  formatPlatformRequirement,
+  getConfiguredPlatforms,
+  parsePlatformRequirement,
+} from '../utils/platforms.js';
+import { getManifestFormats, parseManifestFormats } from '../utils/formats.js';
+import { isSupportedChannel, SUPPORTED_CHANNELS } from '../utils/versioning.js';
+import { PublisherError } from '../utils/errors.js';
+import { loadProjectConfig } from '../utils/project.js';
+import { canPrompt, emitError, emitResult, startSpinner } from '../ui/output.js';
 
-const VALID_KEYS = ['SUPABASE_URL', 'SUPABASE_ANON_KEY', 'APP_PUBLISHER_KEY', 'CDN_URL'] as const;
+const VALID_KEYS = [
+  'SUPABASE_URL',
+  'SUPABASE_ANON_KEY',
+  'APP_PUBLISHER_KEY',
+  'CDN_URL',
+  'MANIFEST_SIGNING_KEY',
+  'MANIFEST_PUBLIC_KEY',
+  'DATABASE_DRIVER',
+  'DATABASE_LOCAL_FILE',
+  'DATABASE_URL',
+  'STORAGE_DRIVER',
+  'STORAGE_LOCAL_DIR',
+  'S3_ENDPOINT',
+  'S3_REGION',
+  'S3_BUCKET',
+  'S3_ACCESS_KEY_ID',
+  'S3_SECRET_ACCESS_KEY',
+] as const;
 type ConfigKey = typeof VALID_KEYS[number];
 
+function invalidKeyError(key: string): PublisherError {
+  return new PublisherError('INVALID_ARGUMENT', `Invalid config key: ${key}`, { validKeys: [...VALID_KEYS] });
+}
+
+function invalidChannelError(channel: string): PublisherError {
+  return new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${channel}`, { validChannels: [...SUPPORTED_CHANNELS, ANY_CHANNEL] });
+}
+
+// Mask sensitive values
+function displayValue(key: string, value: string): string {
+  if (key.includes('KEY') || key.includes('SECRET') || SECRET_CONFIG_KEYS.includes(key as ConfigKey)) {
+    return value.substring(0, 10) + '...' + value.substring(value.length - 4);
+  }
+  return value;
+}
+
+// Suffix for messages, empty for the default profile
+function profileLabel(): string {
+  const profile = getActiveProfile();
+  return profile === DEFAULT_PROFILE ? '' : ` (profile: ${profile})`;
+}
+
 export async function setConfig(key: string, value: string) {
   if (!VALID_KEYS.includes(key as ConfigKey)) {
     console.error(chalk.red(`Invalid config key: ${key}`));
     console.log(chalk.gray('Valid keys: ' + VALID_KEYS.join(', ')));
+    emitError(invalidKeyError(key));
     process.exit(1);
   }
 
-  const spinner = ora(`Setting ${key}...`).start();
+  const isSecret = SECRET_CONFIG_KEYS.includes(key as ConfigKey);
+  if (isSecret && isConfigLocked()) {
+    await promptUnlock();
+  }
+
+  const spinner = startSpinner(`Setting ${key}...`);
 
   try {
     setConfigValue(key as ConfigKey, value);
-    spinner.succeed(chalk.green(`✓ ${key} configured`));
+    spinner.succeed(chalk.green(`✓ ${key} configured${profileLabel()}`));
     console.log(chalk.gray(`  Config file: ${getConfigPath()}`));
+    const encrypted = isSecret && isConfigEncrypted();
+    if (isSecret && !encrypted) {
+      console.log(chalk.gray('  Stored unencrypted. Run config:rekey to encrypt secrets with a passphrase.'));
+    }
+    emitResult({ key, profile: getActiveProfile(), file: getConfigPath(), encrypted });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to set config: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -34,49 +107,56 @@ export async function setConfig(key: string, value: string) {
 export async function getConfig(key?: string) {
   try {
     if (!configExists()) {
-      console.log(chalk.yellow('No configuration found'));
+      emitResult({ profile: getActiveProfile(), file: getConfigPath(), values: null });
+      console.log(chalk.yellow(`No configuration found${profileLabel()}`));
       console.log(chalk.gray(`  Expected location: ${getConfigPath()}`));
       console.log(chalk.gray('  Run "config:set" to configure'));
       return;
     }
 
     const config = loadConfig();
+    const locked = getLockedKeys();
+    const shown = (k: ConfigKey) => config[k] ? displayValue(k, config[k]!) : locked.includes(k) ? 'encrypted' : null;
+    if (locked.length > 0) {
+      console.log(chalk.yellow('Secrets are encrypted. Set PUBLISHER_PASSPHRASE (or unlock in publisher chat) to read them.'));
+    }
 
     if (key) {
       if (!VALID_KEYS.includes(key as ConfigKey)) {
         console.error(chalk.red(`Invalid config key: ${key}`));
         console.log(chalk.gray('Valid keys: ' + VALID_KEYS.join(', ')));
+        emitError(invalidKeyError(key));
         process.exit(1);
       }
 
-      const value = config[key as ConfigKey];
+      const value = shown(key as ConfigKey);
+      emitResult({ profile: getActiveProfile(), file: getConfigPath(), values: { [key]: value } });
       if (value) {
         console.log(chalk.bold(key + ':'));
-        // Mask sensitive values
-        if (key.includes('KEY') || key.includes('SECRET')) {
-          const masked = value.substring(0, 10) + '...' + value.substring(value.length - 4);
-          console.log(chalk.gray(`  ${masked}`));
-        } else {
-          console.log(chalk.gray(`  ${value}`));
-        }
+        console.log(chalk.gray(`  ${value}`));
       } else {
         console.log(chalk.yellow(`${key} is not set`));
       }
     } else {
       // Show all config
-      console.log(chalk.bold('Current configuration:'));
-      console.log(chalk.gray(`  File: ${getConfigPath()}\n`));
+      console.log(chalk.bold(`Current configuration${profileLabel()}:`));
+      console.log(chalk.gray(`  File: ${getConfigPath()}`));
+      const project = loadProjectConfig();
+      if (project.file) {
+        console.log(chalk.gray(`  Project file: ${project.file} (overrides required platforms)`));
+      }
+      console.log('');
+
+      emitResult({
+        profile: getActiveProfile(),
+        file: getConfigPath(),
+        values: Object.fromEntries(VALID_KEYS.map(k => [k, shown(k)])),
+      });
 
       VALID_KEYS.forEach(k => {
-        const value = config[k];
+        const value = shown(k);
         if (value) {
-          // Mask sensitive values
-          if (k.includes('KEY') || k.includes('SECRET')) {
-            const masked = value.substring(0, 10) + '...' + value.substring(value.length - 4);
-            console.log(`  ${chalk.bold(k)}: ${chalk.gray(masked)}`);
-          } else {
-            console.log(`  ${chalk.bold(k)}: ${chalk.gray(value)}`);
-          }
+          console.log(`  ${chalk.bold(k)}: ${chalk.gray(value)}`);
         } else {
           console.log(`  ${chalk.bold(k)}: ${chalk.red('not set')}`);
         }
@@ -84,6 +164,7 @@ export async function getConfig(key?: string) {
     }
   } catch (error: any) {
     console.error(chalk.red(`Failed to get config: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -92,29 +173,211 @@ export async function deleteConfig(key: string) {
   if (!VALID_KEYS.includes(key as ConfigKey)) {
     console.error(chalk.red(`Invalid config key: ${key}`));
     console.log(chalk.gray('Valid keys: ' + VALID_KEYS.join(', ')));
+    emitError(invalidKeyError(key));
     process.exit(1);
   }
 
-  const spinner = ora(`Removing ${key}...`).start();
+  const spinner = startSpinner(`Removing ${key}...`);
 
   try {
     deleteConfigValue(key as ConfigKey);
-    spinner.succeed(chalk.green(`✓ ${key} removed`));
+    spinner.succeed(chalk.green(`✓ ${key} removed${profileLabel()}`));
+    emitResult({ key, profile: getActiveProfile(), file: getConfigPath() });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to delete config: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
 export async function resetConfig() {
-  const spinner = ora('Clearing all configuration...').start();
+  const spinner = startSpinner('Clearing configuration...');
 
   try {
-    clearConfig();
-    spinner.succeed(chalk.green('✓ Configuration cleared'));
+    const profiles = clearConfig();
+    const isDefault = getActiveProfile() === DEFAULT_PROFILE;
+    spinner.succeed(chalk.green(isDefault ? '✓ Default profile cleared' : `✓ Profile ${getActiveProfile()} removed`));
     console.log(chalk.gray(`  Config file: ${getConfigPath()}`));
+    if (isDefault && profiles.length > 0) {
+      console.log(chalk.gray(`  Kept profiles: ${profiles.join(', ')} (remove each with config:reset --profile <name>)`));
+    }
+    emitResult({ profile: getActiveProfile(), file: getConfigPath(), profiles });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to reset config: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Ask for the passphrase of an encrypted config. Without a terminal the caller must set
+ * PUBLISHER_PASSPHRASE, so this fails with CONFIG_LOCKED instead.
+ */
+async function promptUnlock() {
+  const lockedError = new PublisherError('CONFIG_LOCKED', 'The config file is encrypted. Set PUBLISHER_PASSPHRASE to unlock it');
+  if (!canPrompt()) {
+    console.error(chalk.red(`❌ ${lockedError.message}`));
+    emitError(lockedError);
+    process.exit(1);
+  }
+  const { passphrase } = await prompts({ type: 'password', name: 'passphrase', message: 'Config passphrase' });
+  if (!passphrase || !unlockConfig(passphrase)) {
+    console.error(chalk.red('❌ Wrong passphrase'));
+    emitError(new PublisherError('CONFIG_LOCKED', 'Wrong passphrase'));
+    process.exit(1);
+  }
+}
+
+async function promptNewPassphrase(): Promise<string> {
+  if (process.env.PUBLISHER_NEW_PASSPHRASE) {
+    return process.env.PUBLISHER_NEW_PASSPHRASE;
+  }
+  if (!canPrompt()) {
+    throw new PublisherError('INVALID_ARGUMENT', 'Set PUBLISHER_NEW_PASSPHRASE to rekey without a terminal');
+  }
+  const { passphrase } = await prompts({ type: 'password', name: 'passphrase', message: 'New passphrase' });
+  if (!passphrase) {
+    throw new PublisherError('INVALID_ARGUMENT', 'The new passphrase cannot be empty');
+  }
+  const { confirm } = await prompts({ type: 'password', name: 'confirm', message: 'Repeat new passphrase' });
+  if (confirm !== passphrase) {
+    throw new PublisherError('INVALID_ARGUMENT', 'Passphrases do not match');
+  }
+  return passphrase;
+}
+
+export async function configRekey() {
+  if (!configExists()) {
+    console.error(chalk.red('❌ No configuration found'));
+    emitError(new PublisherError('FILE_NOT_FOUND', `No configuration found at ${getConfigPath()}`));
+    process.exit(1);
+  }
+  if (isConfigLocked()) {
+    await promptUnlock();
+  }
+
+  try {
+    const wasEncrypted = isConfigEncrypted();
+    const passphrase = await promptNewPassphrase();
+
+    const spinner = startSpinner('Encrypting secrets...');
+    rekeyConfig(passphrase);
+    spinner.succeed(chalk.green(wasEncrypted ? '✓ Passphrase changed' : '✓ Secrets encrypted'));
+    console.log(chalk.gray(`  Config file: ${getConfigPath()}`));
+    console.log(chalk.gray('  Set PUBLISHER_PASSPHRASE for non-interactive use; publisher chat asks for it once per session.'));
+    emitResult({ file: getConfigPath(), encrypted: true, rotated: wasEncrypted });
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to rekey config: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+export async function configProfiles() {
+  try {
+    const active = getActiveProfile();
+    const profiles = listProfiles().map(name => {
+      const values = loadProfileValues(name);
+      return { name, active: name === active, supabaseUrl: values.SUPABASE_URL || null, keys: VALID_KEYS.filter(k => values[k]) };
+    });
+
+    emitResult({ active, file: getConfigPath(), profiles });
+
+    console.log(chalk.bold('Profiles:'));
+    console.log(chalk.gray(`  File: ${getConfigPath()}\n`));
+    for (const profile of profiles) {
+      const marker = profile.active ? chalk.green('●') : ' ';
+      const url = profile.supabaseUrl
+        ? chalk.gray(profile.supabaseUrl)
+        : chalk.gray('SUPABASE_URL not set');
+      console.log(`  ${marker} ${chalk.bold(profile.name)}  ${url}`);
+    }
+    if (!profiles.some(profile => profile.active)) {
+      console.log(chalk.yellow(`\nActive profile ${active} has no values yet; create it with config:set --profile ${active} <key> <value>`));
+    }
+    console.log(chalk.gray('\n  Select with --profile <name> or PUBLISHER_PROFILE=<name>'));
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to list profiles: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+export async function configPlatforms(channel: string | undefined, specs: string[], options: { clear?: boolean }) {
+  const target = channel || ANY_CHANNEL;
+
+  if (target !== ANY_CHANNEL && !isSupportedChannel(target)) {
+    console.error(chalk.red(`Invalid channel: ${target}`));
+    console.log(chalk.gray(`Supported channels: ${SUPPORTED_CHANNELS.join(', ')}, or "${ANY_CHANNEL}" for all channels`));
+    emitError(invalidChannelError(target));
+    process.exit(1);
+  }
+
+  try {
+    if (options.clear) {
+      setChannelSetting('requiredPlatforms', target, null);
+      console.log(chalk.green(`✓ Required platforms for ${target} cleared`));
+    } else if (specs.length > 0) {
+      // "none" stores an empty matrix so the channel requires nothing
+      const normalized = specs.includes('none')
+        ? []
+        : specs.map(spec => formatPlatformRequirement(parsePlatformRequirement(spec)));
+      setChannelSetting('requiredPlatforms', target, normalized);
+      console.log(chalk.green(`✓ Required platforms for ${target} configured`));
+      console.log(chalk.gray(`  Config file: ${getConfigPath()}`));
+    }
+
+    const channels = target === ANY_CHANNEL ? [...SUPPORTED_CHANNELS] : [target];
+    emitResult({
+      platforms: Object.fromEntries(channels.map(ch => [ch, getConfiguredPlatforms(ch).map(formatPlatformRequirement)])),
+    });
+    for (const ch of channels) {
+      const requirements = getConfiguredPlatforms(ch);
+      console.log(chalk.bold(`Required platforms (${ch}):`));
+      if (requirements.length === 0) {
+        console.log(chalk.gray('  none'));
+      }
+      requirements.forEach(req => console.log(chalk.gray(`  - ${formatPlatformRequirement(req)}`)));
+    }
+    const project = loadProjectConfig();
+    if (project.file && project.config.requiredPlatforms) {
+      console.log(chalk.yellow(`\nrequiredPlatforms in ${project.file} take precedence over this config`));
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to configure platforms: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+export async function configFormats(channel: string | undefined, formats: string[], options: { clear?: boolean }) {
+  const target = channel || ANY_CHANNEL;
+
+  if (target !== ANY_CHANNEL && !isSupportedChannel(target)) {
+    console.error(chalk.red(`Invalid channel: ${target}`));
+    console.log(chalk.gray(`Supported channels: ${SUPPORTED_CHANNELS.join(', ')}, or "${ANY_CHANNEL}" for all channels`));
+    emitError(invalidChannelError(target));
+    process.exit(1);
+  }
+
+  try {
+    if (options.clear) {
+      setChannelSetting('manifestFormats', target, null);
+      console.log(chalk.green(`✓ Manifest formats for ${target} cleared`));
+    } else if (formats.length > 0) {
+      setChannelSetting('manifestFormats', target, parseManifestFormats(formats));
+      console.log(chalk.green(`✓ Manifest formats for ${target} configured`));
+      console.log(chalk.gray(`  Config file: ${getConfigPath()}`));
+    }
+
+    const channels = target === ANY_CHANNEL ? [...SUPPORTED_CHANNELS] : [target];
+    emitResult({ formats: Object.fromEntries(channels.map(ch => [ch, getManifestFormats(ch)])) });
+    for (const ch of channels) {
+      console.log(`  ${chalk.bold(ch)}: ${chalk.gray(getManifestFormats(ch).join(', '))}`);
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to configure formats: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
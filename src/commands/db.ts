@@ -0,0 +1,265 @@
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Client } from 'pg';
+import { loadConfig } from '../utils/config.js';
+import { PublisherError } from '../utils/errors.js';
+import { emitError, emitResult, startSpinner } from '../ui/output.js';
+
+interface DbOptions {
+  databaseUrl?: string;
+  dir?: string;
+}
+
+interface MigrateOptions extends DbOptions {
+  seed?: boolean;
+}
+
+interface MigrationFile {
+  name: string;
+  path: string;
+  checksum: string;
+  sql: string;
+}
+
+interface AppliedMigration {
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+// Files numbered 9000 and up are seed data: re-runnable, never recorded as applied
+const SEED_THRESHOLD = 9000;
+const MIGRATION_PATTERN = /^(\d{4})_[\w-]+\.sql$/;
+
+// Kept outside the publisher schema so it exists before 0001 creates that schema
+const TRACKING_SCHEMA = 'publisher_migrations';
+const TRACKING_TABLE = `${TRACKING_SCHEMA}.applied`;
+
+// Arbitrary key for pg_advisory_lock so two runs never apply the same file concurrently
+const MIGRATION_LOCK_KEY = 7352001;
+
+function databaseUrl(options: DbOptions): string {
+  const url = options.databaseUrl || process.env.DATABASE_URL || loadConfig().DATABASE_URL;
+  if (!url) {
+    throw new PublisherError('MISSING_CREDENTIALS', 'A Postgres connection string is required. Pass --database-url or set DATABASE_URL');
+  }
+  return url;
+}
+
+// Never print the password embedded in a connection string
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) parsed.password = '***';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function migrationDir(options: DbOptions): string {
+  // dist/commands/ and src/commands/ both sit two levels below the package root
+  return resolve(options.dir || join(__dirname, '..', '..', 'migration'));
+}
+
+function readMigrationFiles(dir: string): { migrations: MigrationFile[]; seeds: MigrationFile[] } {
+  if (!existsSync(dir)) {
+    throw new PublisherError('FILE_NOT_FOUND', `Migration directory not found: ${dir}`);
+  }
+
+  const files = readdirSync(dir)
+    .filter(name => MIGRATION_PATTERN.test(name))
+    .sort()
+    .map(name => {
+      const path = join(dir, name);
+      const sql = readFileSync(path, 'utf-8');
+      return { name, path, sql, checksum: createHash('sha256').update(sql).digest('hex') };
+    });
+
+  const isSeed = (file: MigrationFile) => parseInt(file.name.slice(0, 4), 10) >= SEED_THRESHOLD;
+  return {
+    migrations: files.filter(file => !isSeed(file)),
+    seeds: files.filter(isSeed),
+  };
+}
+
+/**
+ * Several files carry their own top-level `begin;` / `commit;`. Inside our transaction the
+ * inner commit would end it early and leave the tracking row outside, so drop them.
+ * Only whole-line statements match; `begin` inside a $$ body has no semicolon.
+ */
+function withoutTransactionControl(sql: string): string {
+  return sql.replace(/^\s*(begin|commit)\s*;\s*$/gim, '');
+}
+
+async function connect(options: DbOptions): Promise<Client> {
+  const url = databaseUrl(options);
+  const client = new Client({ connectionString: url });
+  try {
+    await client.connect();
+  } catch (error: any) {
+    throw new PublisherError('NETWORK_ERROR', `Could not connect to ${redactUrl(url)}: ${error.message}`);
+  }
+  return client;
+}
+
+async function ensureTrackingTable(client: Client) {
+  await client.query(`create schema if not exists ${TRACKING_SCHEMA}`);
+  await client.query(`
+    create table if not exists ${TRACKING_TABLE} (
+      name text primary key,
+      checksum varchar(64) not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+}
+
+async function fetchApplied(client: Client): Promise<Map<string, AppliedMigration>> {
+  const { rows } = await client.query<AppliedMigration>(`select name, checksum, applied_at from ${TRACKING_TABLE} order by name`);
+  return new Map(rows.map(row => [row.name, row]));
+}
+
+async function runInTransaction(client: Client, file: MigrationFile, record: boolean) {
+  await client.query('begin');
+  try {
+    await client.query(withoutTransactionControl(file.sql));
+    if (record) {
+      await client.query(`insert into ${TRACKING_TABLE} (name, checksum) values ($1, $2)`, [file.name, file.checksum]);
+    }
+    await client.query('commit');
+  } catch (error: any) {
+    await client.query('rollback').catch(() => undefined);
+    throw new PublisherError('DATABASE_ERROR', `${file.name} failed: ${error.message}`, {
+      migration: file.name,
+      dbCode: error.code ?? null,
+      hint: error.hint ?? null,
+    });
+  }
+}
+
+// Applied files whose contents changed since; they are not re-run, only reported
+function changedMigrations(migrations: MigrationFile[], applied: Map<string, AppliedMigration>): string[] {
+  return migrations
+    .filter(file => applied.has(file.name) && applied.get(file.name)!.checksum !== file.checksum)
+    .map(file => file.name);
+}
+
+export async function dbMigrate(options: MigrateOptions) {
+  const spinner = startSpinner('Connecting to database...');
+  let client: Client | null = null;
+
+  try {
+    const { migrations, seeds } = readMigrationFiles(migrationDir(options));
+    client = await connect(options);
+
+    await client.query('select pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureTrackingTable(client);
+    const applied = await fetchApplied(client);
+    const pending = migrations.filter(file => !applied.has(file.name));
+
+    const appliedNow: string[] = [];
+    for (const file of pending) {
+      spinner.start(`Applying ${file.name}...`);
+      await runInTransaction(client, file, true);
+      appliedNow.push(file.name);
+      spinner.succeed(chalk.green(`✓ Applied ${file.name}`));
+    }
+
+    const seeded: string[] = [];
+    if (options.seed) {
+      for (const file of seeds) {
+        spinner.start(`Loading ${file.name}...`);
+        await runInTransaction(client, file, false);
+        seeded.push(file.name);
+        spinner.succeed(chalk.green(`✓ Loaded ${file.name}`));
+      }
+    }
+
+    spinner.stop();
+
+    const changed = changedMigrations(migrations, applied);
+    emitResult({ applied: appliedNow, seeded, changed, upToDate: pending.length === 0 });
+
+    if (pending.length === 0) {
+      console.log(chalk.green('Database is up to date'));
+    } else {
+      console.log(chalk.green(`\nApplied ${pending.length} migration(s)`));
+    }
+    for (const name of changed) {
+      console.log(chalk.yellow(`⚠️  ${name} changed after it was applied; it is not re-run`));
+    }
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to migrate database: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  } finally {
+    await client?.end().catch(() => undefined);
+  }
+}
+
+export async function dbStatus(options: DbOptions) {
+  const spinner = startSpinner('Checking migrations...');
+  let client: Client | null = null;
+
+  try {
+    const { migrations, seeds } = readMigrationFiles(migrationDir(options));
+    client = await connect(options);
+
+    // Read-only: a database that was never migrated simply has nothing applied
+    const { rows } = await client.query(`select to_regclass($1) as tracking`, [TRACKING_TABLE]);
+    const applied = rows[0].tracking ? await fetchApplied(client) : new Map<string, AppliedMigration>();
+
+    spinner.stop();
+
+    const entries = migrations.map(file => {
+      const record = applied.get(file.name);
+      return {
+        name: file.name,
+        status: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'changed',
+        appliedAt: record ? record.applied_at.toISOString() : null,
+      };
+    });
+    // Recorded migrations whose files are gone (renamed or deleted locally)
+    const unknown = [...applied.keys()].filter(name => !migrations.some(file => file.name === name));
+    const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+    emitResult({
+      migrations: entries,
+      seeds: seeds.map(file => file.name),
+      unknown,
+      pending: pendingCount,
+    });
+
+    console.log(chalk.bold('\nMigrations:\n'));
+    for (const entry of entries) {
+      if (entry.status === 'applied') {
+        console.log(`  ${chalk.green('✓')} ${entry.name} ${chalk.gray(new Date(entry.appliedAt!).toLocaleString())}`);
+      } else if (entry.status === 'changed') {
+        console.log(`  ${chalk.yellow('!')} ${entry.name} ${chalk.yellow('changed since it was applied')}`);
+      } else {
+        console.log(`  ${chalk.gray('○')} ${entry.name} ${chalk.gray('pending')}`);
+      }
+    }
+    for (const name of unknown) {
+      console.log(`  ${chalk.red('?')} ${name} ${chalk.gray('applied, but no longer in the migration directory')}`);
+    }
+    for (const file of seeds) {
+      console.log(`  ${chalk.gray('·')} ${file.name} ${chalk.gray('seed (load with db:migrate --seed)')}`);
+    }
+
+    console.log('');
+    if (pendingCount > 0) {
+      console.log(chalk.yellow(`${pendingCount} pending migration(s). Run: publisher db:migrate`));
+    } else {
+      console.log(chalk.green('Database is up to date'));
+    }
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to check migrations: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  } finally {
+    await client?.end().catch(() => undefined);
+  }
+}
@@ -0,0 +1,313 @@
+import chalk from 'chalk';
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { supabase, cdnUrl } from '../client.js';
+import { buildCdnUrl } from './build.js';
+import { loadConfig } from '../utils/config.js';
+import { decodeToken, formatDuration, getTokenExpiry } from '../utils/token.js';
+import { PublisherError } from '../utils/errors.js';
+import { isLocalDatabase, localDatabaseFile } from '../db/index.js';
+import { getStorage } from '../storage/index.js';
+import { emitError, emitResult, startSpinner } from '../ui/output.js';
+
+type CheckStatus = 'pass' | 'fail' | 'warn' | 'skip';
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  hint?: string;
+}
+
+// Columns each migration adds; a probe that selects them fails with 42703 when one is missing
+const EXPECTED_COLUMNS: { table: 'versions' | 'builds'; migration: string; columns: string[] }[] = [
+  {
+    table: 'versions',
+    migration: '0001_initial.sql',
+    columns: ['id', 'version_name', 'manifest_version', 'release_date', 'is_published', 'is_mandatory', 'release_notes', 'changelog', 'metadata'],
+  },
+  {
+    table: 'versions',
+    migration: '0002_release_channels.sql',
+    columns: ['release_channel', 'min_supported_version', 'rollout_percentage', 'rollout_start_at', 'rollout_end_at', 'storage_key_prefix'],
+  },
+  {
+    table: 'builds',
+    migration: '0001_initial.sql',
+    columns: ['id', 'version_id', 'os', 'arch', 'type', 'package_name', 'url', 'size', 'sha256_checksum', 'sha512_checksum', 'platform_metadata'],
+  },
+  { table: 'builds', migration: '0003_multi_distribution_builds.sql', columns: ['distribution'] },
+  { table: 'builds', migration: '0005_build_variants.sql', columns: ['variant'] },
+  { table: 'builds', migration: '0006_build_signatures.sql', columns: ['signature'] },
+];
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MIGRATE_HINT = 'Apply the migrations: publisher db:migrate (see "Migrations" in the README)';
+
+function setting(key: 'SUPABASE_URL' | 'SUPABASE_ANON_KEY' | 'APP_PUBLISHER_KEY'): string | undefined {
+  return process.env[key] || loadConfig()[key];
+}
+
+function pass(name: string, detail: string): CheckResult {
+  return { name, status: 'pass', detail };
+}
+
+function fail(name: string, detail: string, hint?: string): CheckResult {
+  return { name, status: 'fail', detail, hint };
+}
+
+function skip(name: string, detail: string): CheckResult {
+  return { name, status: 'skip', detail };
+}
+
+function checkCredentials(): CheckResult {
+  const missing = (['SUPABASE_URL', 'SUPABASE_ANON_KEY', 'APP_PUBLISHER_KEY'] as const).filter(key => !setting(key));
+  if (missing.length > 0) {
+    return fail('Credentials', `Missing ${missing.join(', ')}`, 'Run publisher chat for guided setup, or publisher config:set <KEY> <value>');
+  }
+  return pass('Credentials', 'SUPABASE_URL, SUPABASE_ANON_KEY and APP_PUBLISHER_KEY are set');
+}
+
+const MINT_HINT = 'Issue a new key: publisher token:mint (or see "Generate APP_PUBLISHER_KEY" in the README)';
+
+// Decoded locally; whether Supabase accepts the signature is checked against the schema below
+function checkKeyExpiry(): CheckResult {
+  let claims;
+  try {
+    claims = decodeToken(setting('APP_PUBLISHER_KEY')!).claims;
+  } catch {
+    return fail('Key expiry', 'APP_PUBLISHER_KEY is not a JWT', MINT_HINT);
+  }
+
+  const expiry = getTokenExpiry(claims);
+  if (expiry.status === 'expired') {
+    return fail('Key expiry', `Expired ${formatDuration(expiry.remaining!)} ago`, MINT_HINT);
+  }
+  if (expiry.status === 'expiring') {
+    return { name: 'Key expiry', status: 'warn', detail: `Expires in ${formatDuration(expiry.remaining!)}`, hint: MINT_HINT };
+  }
+  if (expiry.status === 'no-expiry') {
+    return pass('Key expiry', 'Never expires');
+  }
+  return pass('Key expiry', `Valid until ${expiry.expiresAt!.toISOString()}`);
+}
+
+/**
+ * The auth settings endpoint answers any request with a valid apikey, so one call tells
+ * an unreachable host apart from a rejected anon key.
+ */
+async function checkSupabase(url: string, anonKey: string): Promise<CheckResult[]> {
+  const endpoint = `${url.replace(/\/$/, '')}/auth/v1/settings`;
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      headers: { apikey: anonKey },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    return [
+      fail('Supabase URL', `${url} is not reachable: ${error.cause?.message || error.message}`, 'Check SUPABASE_URL (https://<project>.supabase.co) and your network connection'),
+      skip('Anon key', 'Supabase is not reachable'),
+    ];
+  }
+
+  const reachable = pass('Supabase URL', `${url} responded (HTTP ${response.status})`);
+  if (response.status === 401 || response.status === 403) {
+    return [reachable, fail('Anon key', `Rejected with HTTP ${response.status}`, 'Copy the anon (public) key from Project Settings → API into SUPABASE_ANON_KEY')];
+  }
+  if (!response.ok) {
+    return [reachable, { name: 'Anon key', status: 'warn', detail: `Unexpected HTTP ${response.status} from ${endpoint}` }];
+  }
+  return [reachable, pass('Anon key', 'Accepted')];
+}
+
+function describeDbError(error: any): string {
+  return error.code ? `${error.message} (${error.code})` : error.message;
+}
+
+/**
+ * Reads through the shared client, which authenticates as APP_PUBLISHER_KEY. Errors are
+ * mapped to the step that fixes them: the key, the exposed schemas, or a missing migration.
+ */
+async function checkSchema(): Promise<CheckResult[]> {
+  const probe = (table: string, columns: string[]) =>
+    supabase.schema('publisher').from(table).select(columns.join(',')).limit(1).abortSignal(AbortSignal.timeout(REQUEST_TIMEOUT_MS));
+
+  const { error: keyError } = await probe('versions', ['id']);
+  if (keyError && (/jwt|api key/i.test(keyError.message) || keyError.code === 'PGRST301')) {
+    return [
+      fail('Publisher key', describeDbError(keyError), 'Generate a new APP_PUBLISHER_KEY (see "Generate APP_PUBLISHER_KEY" in the README)'),
+      skip('Schema', 'Publisher key was rejected'),
+    ];
+  }
+  if (keyError && keyError.code === 'PGRST106') {
+    return [
+      pass('Publisher key', 'Accepted'),
+      fail('Schema', 'The publisher schema is not exposed by the API', 'Add "publisher" to Exposed schemas in Project Settings → API'),
+    ];
+  }
+  if (keyError && keyError.code === '42501') {
+    return [
+      fail('Publisher key', describeDbError(keyError), 'The key must carry role "app_publisher", and 0001_initial.sql grants it access. ' + MIGRATE_HINT),
+      skip('Schema', 'Publisher key has no access'),
+    ];
+  }
+
+  const results: CheckResult[] = [pass('Publisher key', 'Accepted')];
+  const missingTables = new Set<string>();
+
+  for (const { table, migration, columns } of EXPECTED_COLUMNS) {
+    if (missingTables.has(table)) continue;
+    const { error } = await probe(table, columns);
+    if (!error) continue;
+
+    // 42P01 from Postgres, PGRST205 when PostgREST's schema cache has no such table
+    if (error.code === '42P01' || error.code === 'PGRST205') {
+      missingTables.add(table);
+      results.push(fail(`Table publisher.${table}`, 'Does not exist', MIGRATE_HINT));
+    } else if (error.code === '42703') {
+      results.push(fail(`Table publisher.${table}`, `Missing columns from ${migration}: ${describeDbError(error)}`, MIGRATE_HINT));
+    } else {
+      results.push(fail(`Table publisher.${table}`, describeDbError(error)));
+    }
+  }
+
+  for (const table of ['versions', 'builds']) {
+    if (!results.some(result => result.name === `Table publisher.${table}`)) {
+      results.push(pass(`Table publisher.${table}`, 'Exists with the columns from migrations 0001-0006'));
+    }
+  }
+  return results;
+}
+
+async function fetchTestObject(url: string): Promise<Buffer> {
+  // The local storage driver's CDN base is a file:// URL
+  if (url.startsWith('file:')) {
+    return readFile(fileURLToPath(url.split('?')[0]));
+  }
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Writes a throwaway object, reads it back through CDN_URL, then removes it.
+ */
+async function checkStorage(): Promise<CheckResult[]> {
+  let storage;
+  try {
+    storage = getStorage();
+  } catch (error: any) {
+    return [fail('Storage', error.message, 'Fix the storage settings (see "Storage backends" in the README)')];
+  }
+
+  const path = `.doctor/${randomUUID()}.txt`;
+  const body = `publisher doctor ${new Date().toISOString()}\n`;
+
+  try {
+    await storage.upload(path, body, 'text/plain');
+  } catch (error: any) {
+    const bucketMissing = /bucket not found/i.test(error.message);
+    return [
+      fail(
+        `Storage (${storage.name})`,
+        `Cannot write archive/${path}: ${error.message}`,
+        bucketMissing
+          ? 'Create the archive bucket: it is part of 0001_initial.sql'
+          : 'Check that the key may write to the archive bucket (storage policies in 0001_initial.sql)'
+      ),
+      skip('CDN_URL', 'No test object to fetch'),
+    ];
+  }
+
+  const results: CheckResult[] = [pass(`Storage (${storage.name})`, 'archive is writable')];
+  const url = buildCdnUrl(cdnUrl, path);
+
+  try {
+    const served = await fetchTestObject(url);
+    if (served.toString('utf-8') === body) {
+      results.push(pass('CDN_URL', `Serves uploaded objects (${cdnUrl})`));
+    } else {
+      results.push(fail('CDN_URL', `${url} returned different content`, 'CDN_URL must point at the storage root that contains archive/ (a stale cache can also cause this)'));
+    }
+  } catch (error: any) {
+    results.push(fail('CDN_URL', `Cannot fetch ${url}: ${error.cause?.message || error.message}`, 'CDN_URL must point at the storage root that contains archive/, with public read access'));
+  }
+
+  try {
+    await storage.remove([path]);
+  } catch (error: any) {
+    results.push({ name: 'Cleanup', status: 'warn', detail: `Could not remove archive/${path}: ${error.message}` });
+  }
+  return results;
+}
+
+async function runChecks(): Promise<CheckResult[]> {
+  if (isLocalDatabase()) {
+    return [
+      pass('Database', `Local database file ${localDatabaseFile()}`),
+      ...(await checkStorage()),
+    ];
+  }
+
+  const credentials = checkCredentials();
+  if (credentials.status === 'fail' || !supabase) {
+    return [credentials, skip('Supabase', 'Credentials are incomplete')];
+  }
+
+  const keyExpiry = checkKeyExpiry();
+  const connection = await checkSupabase(setting('SUPABASE_URL')!, setting('SUPABASE_ANON_KEY')!);
+  if (connection[0].status === 'fail') {
+    return [credentials, keyExpiry, ...connection];
+  }
+
+  const schema = await checkSchema();
+  // Storage writes need the same key; skip them when it was rejected
+  const keyRejected = schema.some(result => result.name === 'Publisher key' && result.status === 'fail');
+  const storage = keyRejected ? [skip('Storage', 'Publisher key was rejected')] : await checkStorage();
+
+  return [credentials, keyExpiry, ...connection, ...schema, ...storage];
+}
+
+const STATUS_ICON: Record<CheckStatus, string> = {
+  pass: chalk.green('✓'),
+  fail: chalk.red('✗'),
+  warn: chalk.yellow('!'),
+  skip: chalk.gray('○'),
+};
+
+export async function runDoctor() {
+  const spinner = startSpinner('Running checks...');
+
+  try {
+    const checks = await runChecks();
+    spinner.stop();
+
+    console.log(chalk.bold('\nPublisher doctor:\n'));
+    for (const check of checks) {
+      const detail = check.status === 'skip' ? chalk.gray(check.detail) : check.detail;
+      console.log(`  ${STATUS_ICON[check.status]} ${chalk.bold(check.name)} ${chalk.gray('—')} ${detail}`);
+      if (check.hint && check.status !== 'pass') {
+        console.log(chalk.gray(`      → ${check.hint}`));
+      }
+    }
+
+    const failed = checks.filter(check => check.status === 'fail');
+    console.log('');
+    if (failed.length > 0) {
+      console.log(chalk.red(`${failed.length} check(s) failed`));
+      emitError(new PublisherError('CHECKS_FAILED', `${failed.length} check(s) failed`, { checks }));
+      process.exit(1);
+    }
+
+    console.log(chalk.green('All checks passed'));
+    emitResult({ checks });
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to run checks: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import { existsSync, readFileSync } from 'fs';
+import { parseManifestXml } from '../utils/manifest.js';
+import { getManifestPublicKey, verifyManifestSignature } from '../utils/signing.js';
+import { PublisherError } from '../utils/errors.js';
+import { emitError, emitResult, startSpinner } from '../ui/output.js';
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+async function readSource(source: string): Promise<Buffer> {
+  if (isUrl(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new PublisherError('NETWORK_ERROR', `GET ${source} returned ${response.status} ${response.statusText}`, { status: response.status });
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+  if (!existsSync(source)) {
+    throw new PublisherError('FILE_NOT_FOUND', `File not found: ${source}`);
+  }
+  return readFileSync(source);
+}
+
+/**
+ * Detached signature location next to the manifest: file.sig, or the URL path + .sig.
+ */
+function defaultSignatureSource(source: string): string {
+  if (isUrl(source)) {
+    const url = new URL(source);
+    url.pathname = `${url.pathname}.sig`;
+    return url.toString();
+  }
+  return `${source}.sig`;
+}
+
+export async function verifyManifest(source: string, options: { publicKey?: string; signature?: string }) {
+  const spinner = startSpinner(`Verifying ${source}...`);
+
+  try {
+    // --public-key accepts the key itself or a path to a PEM file
+    const keyOption = options.publicKey && existsSync(options.publicKey)
+      ? readFileSync(options.publicKey, 'utf-8')
+      : options.publicKey;
+    const publicKey = getManifestPublicKey(keyOption);
+    if (!publicKey) {
+      throw new PublisherError('INVALID_ARGUMENT', 'No public key. Pass --public-key or set MANIFEST_PUBLIC_KEY');
+    }
+
+    const signatureSource = options.signature || defaultSignatureSource(source);
+    const [body, signature] = await Promise.all([
+      readSource(source),
+      readSource(signatureSource).then(b => b.toString('utf-8')),
+    ]);
+
+    if (!verifyManifestSignature(body, signature, publicKey)) {
+      throw new PublisherError('SIGNATURE_INVALID', `signature ${signatureSource} does not match the manifest`);
+    }
+
+    const manifest = parseManifestXml(body.toString('utf-8'));
+
+    spinner.succeed(chalk.green('✓ Manifest signature is valid'));
+    console.log(chalk.gray(`  Manifest: ${source}`));
+    console.log(chalk.gray(`  Signature: ${signatureSource}`));
+    console.log(chalk.gray(`  Version: ${manifest.version} (${manifest.channel})`));
+    console.log(chalk.gray(`  Platforms: ${manifest.platforms.map(p => p.os).join(', ') || 'none'}`));
+
+    emitResult({
+      valid: true,
+      manifest: source,
+      signature: signatureSource,
+      version: manifest.version,
+      channel: manifest.channel,
+      platforms: manifest.platforms.map(p => p.os),
+    });
+  } catch (error: any) {
+    spinner.fail(chalk.red(`Failed to verify manifest: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
@@ -1,29 +1,73 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import prompts from 'prompts';
-import { supabase, cdnUrl } from '../index.js';
+import semver from 'semver';
+import { supabase, cdnUrl } from '../client.js';
 import {
   assembleVersionManifest,
   assembleChannelLatestManifest,
-  manifestToXml,
+  parseManifestXml,
+  diffManifests,
   MANIFEST_FILENAME,
-  MANIFEST_CONTENT_TYPE,
   Manifest,
 } from '../utils/manifest.js';
-import { sortVersionsDesc } from '../utils/versioning.js';
+import { allManifestFilenames, getManifestFormats, ManifestScope, renderManifest } from '../utils/formats.js';
+import { writeFileSync } from 'fs';
+import { sortVersionsDesc, validateSemverOrThrow } from '../utils/versioning.js';
+import {
+  findMissingPlatforms,
+  formatPlatformRequirement,
+  resolveRequiredPlatforms,
+  PlatformRequirement,
+} from '../utils/platforms.js';
+import { PublisherError, errorCode } from '../utils/errors.js';
+import { getStorage } from '../storage/index.js';
+import { canPrompt, emitError, emitResult, startSpinner } from '../ui/output.js';
 
 const appDb = () => supabase.schema('publisher');
 
-interface ChannelOptions {
+interface PublishOptions {
   channel?: string;
   yes?: boolean;
+  require?: string[];
+  fallback?: string;
+  report?: string;
+  dryRun?: boolean;
+}
+
+type FallbackStrategy =
+  | { kind: 'latest' }
+  | { kind: 'none' }
+  | { kind: 'fail' }
+  | { kind: 'from'; version: string };
+
+interface FallbackAssignment {
+  requirement: PlatformRequirement;
+  status: 'assigned' | 'skipped' | 'unresolved' | 'failed';
+  build?: any;
+  sourceVersion?: string;
+  error?: string;
+}
+
+function parseFallbackStrategy(value?: string): FallbackStrategy | null {
+  if (value === undefined) return null;
+  if (value === 'latest' || value === 'none' || value === 'fail') {
+    return { kind: value };
+  }
+  if (value.startsWith('from:')) {
+    const source = value.slice('from:'.length);
+    validateSemverOrThrow(source, '--fallback from');
+    return { kind: 'from', version: source };
+  }
+  throw new PublisherError('INVALID_ARGUMENT', `Invalid --fallback strategy: "${value}". Expected latest, none, fail, or from:<version>`);
 }
 
-export async function publishVersion(version: string, options: ChannelOptions) {
+export async function publishVersion(version: string, options: PublishOptions) {
   const channel = options.channel || 'stable';
-  const spinner = ora(`Checking version ${version}...`).start();
+  const spinner = startSpinner(`Checking version ${version}...`);
 
   try {
+    const fallbackStrategy = parseFallbackStrategy(options.fallback);
+
     // Get version ID
     const { data: versionData, error: versionError } = await appDb()
       .from('versions')
@@ -33,167 +77,87 @@ export async function publishVersion(version: string, options: ChannelOptions) {
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
     // Get existing builds for this version
     const { data: existingBuilds, error: buildsError } = await appDb()
       .from('builds')
-      .select('os, arch, type, package_name')
+      .select('os, arch, type, variant, distribution, package_name')
       .eq('version_id', versionData.id);
 
     if (buildsError) throw buildsError;
 
     spinner.succeed(`Version ${version} found with ${existingBuilds?.length || 0} builds`);
 
-    // required platforms (installer is required, patch is optional)
-    const requiredCombinations = [
-      // macOS
-      { os: 'macos', arch: 'arm64', type: 'installer' },
-      { os: 'macos', arch: 'x64', type: 'installer' },
-      // Windows
-      { os: 'windows', arch: 'x64', type: 'installer' },
-      // Linux
-      { os: 'linux', arch: 'x64', type: 'installer' },
-      // Mobile
-      { os: 'ios', arch: 'arm64', type: 'installer' },
-      { os: 'android', arch: 'arm64', type: 'installer' },
-    ];
+    // Required platforms come from the per-channel matrix, narrowed or extended by --require
+    const requiredPlatforms = resolveRequiredPlatforms(channel, options.require);
 
     // Check for missing builds
-    const missingBuilds = requiredCombinations.filter(required => {
-      return !existingBuilds?.some((b: any) => 
-        b.os === required.os && 
-        b.arch === required.arch && 
-        b.type === required.type
-      );
-    });
+    const missingBuilds = findMissingPlatforms(requiredPlatforms, existingBuilds || []);
+    let assignments: FallbackAssignment[] = [];
 
-    // If there are missing builds, prompt user to select fallbacks
+    // If there are missing builds, resolve fallbacks (interactively or via --fallback)
     if (missingBuilds.length > 0) {
-      console.log(chalk.yellow(`\n⚠ Missing ${missingBuilds.length} installer build(s):`));
+      console.log(chalk.yellow(`\n⚠ Missing ${missingBuilds.length} required build(s):`));
       missingBuilds.forEach(b => {
-        console.log(chalk.gray(`  - ${b.os}/${b.arch}/${b.type}`));
+        console.log(chalk.gray(`  - ${formatPlatformRequirement(b)}`));
       });
 
-      console.log(chalk.blue('\nYou can assign builds from previous versions as fallbacks.'));
-
-      const { data: channelVersions, error: channelVersionsError } = await appDb()
-        .from('versions')
-        .select('id, version_name')
-        .eq('release_channel', channel)
-        .order('created_at', { ascending: false });
-
-      if (channelVersionsError) throw channelVersionsError;
-      const channelVersionIdToName = new Map((channelVersions || []).map((v: any) => [v.id, v.version_name]));
-      const channelVersionIds = (channelVersions || []).map((v: any) => v.id);
-      
-      for (const missing of missingBuilds) {
-        if (channelVersionIds.length === 0) {
-          console.log(chalk.red(`\n✗ No versions found in channel ${channel}`));
-          continue;
-        }
+      if (!fallbackStrategy && !canPrompt()) {
+        throw new PublisherError(
+          'CONFIRMATION_REQUIRED',
+          'Missing required builds and no interactive terminal. Pass --fallback <latest|none|fail|from:<version>>',
+          { missing: missingBuilds.map(formatPlatformRequirement) }
+        );
+      }
 
-        // Find available builds for this platform combination
-        const { data: availableBuilds, error: availError } = await appDb()
-          .from('builds')
-          .select(`
-            version_id,
-            os,
-            arch,
-            type,
-            variant,
-            distribution,
-            package_name,
-            url,
-            size,
-            sha256_checksum,
-            sha512_checksum,
-            platform_metadata
-          `)
-          .in('version_id', channelVersionIds)
-          .eq('os', missing.os)
-          .eq('arch', missing.arch)
-          .eq('type', missing.type)
-          .order('created_at', { ascending: false })
-          .limit(10);
-
-        if (availError) throw availError;
-
-        if (!availableBuilds || availableBuilds.length === 0) {
-          console.log(chalk.red(`\n✗ No builds found for ${missing.os}/${missing.arch}/${missing.type}`));
-          console.log(chalk.gray(`  Skipping this platform...`));
-          continue;
-        }
+      if (fallbackStrategy?.kind === 'fail') {
+        writeFallbackReport(version, channel, options, missingBuilds.map(requirement => ({ requirement, status: 'unresolved' })));
+        throw new PublisherError(
+          'MISSING_BUILDS',
+          `Missing ${missingBuilds.length} required build(s) and --fallback fail was specified`,
+          { missing: missingBuilds.map(formatPlatformRequirement) }
+        );
+      }
 
-        // Create choices for prompts
-        const choices = availableBuilds.map((build: any) => ({
-          title: `${channelVersionIdToName.get(build.version_id) || 'unknown'} - ${build.package_name}`,
-          value: {
-            version: channelVersionIdToName.get(build.version_id),
-            package_name: build.package_name,
-            ...build
-          }
-        }));
-
-        choices.push({
-          title: chalk.gray('Skip this platform'),
-          value: null
-        });
-
-        const response = await prompts({
-          type: 'select',
-          name: 'build',
-          message: `Select fallback build for ${chalk.bold(missing.os)}/${chalk.bold(missing.arch)}/${chalk.bold(missing.type)}:`,
-          choices,
-          initial: 0
-        });
-
-        if (response.build) {
-          const assignSpinner = ora(`Assigning build from ${response.build.version}...`).start();
-
-          const { error: insertError } = await appDb()
-            .from('builds')
-            .insert({
-              version_id: versionData.id,
-              os: response.build.os,
-              arch: response.build.arch,
-              type: response.build.type,
-              variant: response.build.variant || 'default',
-              distribution: response.build.distribution || 'direct',
-              package_name: response.build.package_name,
-              url: response.build.url,
-              size: response.build.size,
-              sha256_checksum: response.build.sha256_checksum,
-              sha512_checksum: response.build.sha512_checksum,
-              platform_metadata: {
-                fallback_from: response.build.version
-              }
-            });
-
-          if (insertError) {
-            assignSpinner.fail(`Failed to assign build: ${insertError.message}`);
-          } else {
-            assignSpinner.succeed(`Assigned build from ${response.build.version}`);
-          }
-        } else {
-          console.log(chalk.gray(`  Skipped ${missing.os}/${missing.arch}/${missing.type}`));
-        }
+      if (!fallbackStrategy) {
+        console.log(chalk.blue('\nYou can assign builds from previous versions as fallbacks.'));
+      }
+
+      assignments = await resolveFallbacks(version, missingBuilds, channel, fallbackStrategy);
+      if (!options.dryRun) {
+        await applyFallbacks(versionData.id, assignments);
+      }
+
+      if (fallbackStrategy) {
+        writeFallbackReport(version, channel, options, assignments);
       }
     }
 
+    if (options.dryRun) {
+      spinner.stop();
+      await printPublishPreview(version, channel, assignments);
+      return;
+    }
+
     const review = await buildVersionManifest(version, channel);
-    const storagePrefix = versionData.storage_key_prefix || `releases/${channel}/${version}`;
+    const channelManifest = await assemblePlannedChannelManifest(review.versionData, review.builds);
+    const { versionFiles, channelFiles } = manifestPaths(review.manifest, channelManifest, review.storagePrefix, channel);
 
     spinner.stop();
     console.log(chalk.yellow('\n⚠ Publish Alert'));
     console.log(chalk.gray(`  Channel: ${channel}`));
-    console.log(chalk.gray(`  Version Manifest: archive/${storagePrefix}/${MANIFEST_FILENAME}`));
-    console.log(chalk.gray(`  Channel Manifest: archive/channels/${channel}/${MANIFEST_FILENAME}`));
+    console.log(chalk.gray(`  Version Manifest: ${versionFiles.join(', ')}`));
+    console.log(chalk.gray(`  Channel Manifest: ${channelFiles.join(', ')}`));
     console.log(chalk.gray(`  Platforms in version manifest: ${review.manifest.platforms.length}`));
     console.log(chalk.gray(`  Mandatory: ${review.manifest.mandatory ? 'yes' : 'no'}`));
 
     if (!options.yes) {
+      if (!canPrompt()) {
+        throw new PublisherError('CONFIRMATION_REQUIRED', 'Publish confirmation requires an interactive terminal. Pass --yes to publish headlessly');
+      }
+
       const response = await prompts({
         type: 'confirm',
         name: 'confirmPublish',
@@ -208,49 +172,331 @@ export async function publishVersion(version: string, options: ChannelOptions) {
     }
 
     // Now publish the version
-    const publishSpinner = ora('Publishing version...').start();
-
-    const { error: updateError } = await appDb()
-      .from('versions')
-      .update({ is_published: true })
-      .eq('version_name', version)
-      .eq('release_channel', channel);
-
-    if (updateError) throw updateError;
-
-    publishSpinner.text = 'Generating manifests...';
-
-    // Generate version-specific manifest
-    await generateManifest(version, { showSpinner: false, channel });
-
-    // Generate channel-latest manifest (with latest build per platform)
-    await generateLatestManifest(channel);
+    const publishSpinner = startSpinner('Publishing version...');
+    const manifests = await markPublished(version, channel, step => { publishSpinner.text = step; });
 
     publishSpinner.succeed(chalk.green(`✓ Version ${version} (${channel}) published`));
     console.log(chalk.gray(`  Manifests generated:`));
-    console.log(chalk.gray(`    - archive/${storagePrefix}/${MANIFEST_FILENAME}`));
-    console.log(chalk.gray(`    - archive/channels/${channel}/${MANIFEST_FILENAME}`));
+    manifests.forEach(f => console.log(chalk.gray(`    - ${f}`)));
+
+    emitResult({
+      version,
+      channel,
+      published: true,
+      manifests,
+      fallbacks: assignments.map(toReportEntry),
+    });
   } catch (error: any) {
     console.error(chalk.red(`\nFailed to publish version: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
-export async function generateManifest(version: string, options: { showSpinner?: boolean; channel?: string } = {}) {
-  const showSpinner = options.showSpinner ?? true;
+export interface PublishReleaseOptions {
+  channel?: string;
+  require?: string[];
+  fallback?: string;
+}
+
+export interface PublishResult {
+  version: string;
+  channel: string;
+  manifests: string[];
+  fallbacks: ReturnType<typeof toReportEntry>[];
+}
+
+/**
+ * Non-interactive publish: missing required builds are resolved with the `fallback`
+ * strategy (MISSING_BUILDS without one), then the version is marked published and
+ * both manifests are uploaded.
+ */
+export async function publishRelease(version: string, options: PublishReleaseOptions = {}): Promise<PublishResult> {
   const channel = options.channel || 'stable';
-  const spinner = showSpinner ? ora(`Generating manifest for ${version} (${channel})...`).start() : null;
+  const fallbackStrategy = parseFallbackStrategy(options.fallback);
 
-  try {
-    const { manifest, manifestPath } = await buildVersionManifest(version, channel);
-    const { error: uploadError } = await supabase.storage
-      .from('archive')
-      .upload(manifestPath, manifestToXml(manifest), {
-        contentType: MANIFEST_CONTENT_TYPE,
-        upsert: true
+  const { data: versionData, error: versionError } = await appDb()
+    .from('versions')
+    .select('id')
+    .eq('version_name', version)
+    .eq('release_channel', channel)
+    .single();
+
+  if (versionError || !versionData) {
+    throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
+  }
+
+  const { data: existingBuilds, error: buildsError } = await appDb()
+    .from('builds')
+    .select('os, arch, type, variant, distribution')
+    .eq('version_id', versionData.id);
+
+  if (buildsError) throw buildsError;
+
+  const requiredPlatforms = resolveRequiredPlatforms(channel, options.require);
+  const missingBuilds = findMissingPlatforms(requiredPlatforms, existingBuilds || []);
+  let assignments: FallbackAssignment[] = [];
+
+  if (missingBuilds.length > 0) {
+    if (!fallbackStrategy || fallbackStrategy.kind === 'fail') {
+      throw new PublisherError(
+        'MISSING_BUILDS',
+        `Missing ${missingBuilds.length} required build(s)${fallbackStrategy ? '' : '. Pass a fallback strategy to assign or skip them'}`,
+        { missing: missingBuilds.map(formatPlatformRequirement) }
+      );
+    }
+    assignments = await resolveFallbacks(version, missingBuilds, channel, fallbackStrategy, true);
+    await applyFallbacks(versionData.id, assignments, true);
+  }
+
+  const manifests = await markPublished(version, channel);
+
+  return {
+    version,
+    channel,
+    manifests,
+    fallbacks: assignments.map(toReportEntry),
+  };
+}
+
+/**
+ * Mark the version published and upload its manifests and the channel's. Returns the storage
+ * paths that were written.
+ */
+async function markPublished(version: string, channel: string, onProgress: (step: string) => void = () => {}): Promise<string[]> {
+  const { error: updateError } = await appDb()
+    .from('versions')
+    .update({ is_published: true })
+    .eq('version_name', version)
+    .eq('release_channel', channel);
+
+  if (updateError) throw updateError;
+
+  onProgress('Generating manifests...');
+
+  // Generate version-specific manifest
+  const { manifest, storagePrefix } = await buildVersionManifest(version, channel);
+  const versionFiles = await uploadManifestFiles(storagePrefix, manifest, channel);
+
+  // Generate channel-latest manifest (with latest build per platform)
+  const { files: channelFiles } = await writeChannelManifest(channel);
+
+  return [...versionFiles, ...channelFiles].map(path => `archive/${path}`);
+}
+
+// Storage paths of the files publish will write for the enabled formats
+function manifestPaths(versionManifest: Manifest, channelManifest: Manifest, storagePrefix: string, channel: string) {
+  const formats = getManifestFormats(channel);
+  return {
+    versionFiles: renderManifest(versionManifest, formats).map(f => `archive/${storagePrefix}/${f.filename}`),
+    channelFiles: renderManifest(channelManifest, formats, 'channel').map(f => `archive/channels/${channel}/${f.filename}`),
+  };
+}
+
+async function resolveFallbacks(
+  version: string,
+  missingBuilds: PlatformRequirement[],
+  channel: string,
+  strategy: FallbackStrategy | null,
+  quiet = false
+): Promise<FallbackAssignment[]> {
+  const { data: channelVersions, error: channelVersionsError } = await appDb()
+    .from('versions')
+    .select('id, version_name, is_published')
+    .eq('release_channel', channel)
+    .order('created_at', { ascending: false });
+
+  if (channelVersionsError) throw channelVersionsError;
+  const channelVersionIdToName = new Map<string, string>((channelVersions || []).map((v: any) => [v.id, v.version_name]));
+
+  let sourceVersionIds = (channelVersions || []).map((v: any) => v.id);
+  if (strategy?.kind === 'from') {
+    const pinned = (channelVersions || []).find((v: any) => v.version_name === strategy.version);
+    if (!pinned) {
+      throw new PublisherError('VERSION_NOT_FOUND', `Fallback source version ${strategy.version} (${channel}) not found`);
+    }
+    sourceVersionIds = [pinned.id];
+  } else if (strategy?.kind === 'latest') {
+    // Only builds clients already received: an unreleased or newer version is no fallback
+    sourceVersionIds = (channelVersions || [])
+      .filter((v: any) => v.is_published && semver.valid(v.version_name) && semver.lt(v.version_name, version))
+      .map((v: any) => v.id);
+  }
+
+  const assignments: FallbackAssignment[] = [];
+
+  for (const missing of missingBuilds) {
+    if (strategy?.kind === 'none') {
+      assignments.push({ requirement: missing, status: 'skipped' });
+      continue;
+    }
+
+    if (sourceVersionIds.length === 0) {
+      if (!quiet) {
+        console.log(chalk.red(strategy?.kind === 'latest'
+          ? `\n✗ No published version older than ${version} in channel ${channel}`
+          : `\n✗ No versions found in channel ${channel}`));
+      }
+      assignments.push({ requirement: missing, status: 'unresolved' });
+      continue;
+    }
+
+    // Find available builds for this platform combination
+    let availableQuery = appDb()
+      .from('builds')
+      .select('*')
+      .in('version_id', sourceVersionIds)
+      .eq('os', missing.os)
+      .eq('arch', missing.arch)
+      .eq('type', missing.type);
+
+    if (missing.variant) availableQuery = availableQuery.eq('variant', missing.variant);
+    if (missing.distribution) availableQuery = availableQuery.eq('distribution', missing.distribution);
+
+    availableQuery = availableQuery.order('created_at', { ascending: false });
+    const { data: availableBuilds, error: availError } = strategy
+      ? await availableQuery
+      : await availableQuery.limit(10);
+
+    if (availError) throw availError;
+
+    if (!availableBuilds || availableBuilds.length === 0) {
+      if (!quiet) {
+        console.log(chalk.red(`\n✗ No builds found for ${formatPlatformRequirement(missing)}`));
+        console.log(chalk.gray(`  Skipping this platform...`));
+      }
+      assignments.push({ requirement: missing, status: 'unresolved' });
+      continue;
+    }
+
+    const candidates = availableBuilds.map((build: any) => ({
+      ...build,
+      version: channelVersionIdToName.get(build.version_id),
+    }));
+
+    if (strategy) {
+      // "latest" follows semantic version order, like the channel manifest
+      const [picked] = sortVersionsDesc(candidates, (b: any) => b.version || '');
+      assignments.push({ requirement: missing, status: 'assigned', build: picked, sourceVersion: picked.version });
+      continue;
+    }
+
+    // Create choices for prompts
+    const choices = candidates.map((build: any) => ({
+      title: `${build.version || 'unknown'} - ${build.package_name}`,
+      value: build,
+    }));
+
+    choices.push({
+      title: chalk.gray('Skip this platform'),
+      value: null
+    });
+
+    const response = await prompts({
+      type: 'select',
+      name: 'build',
+      message: `Select fallback build for ${chalk.bold(formatPlatformRequirement(missing))}:`,
+      choices,
+      initial: 0
+    });
+
+    if (response.build) {
+      assignments.push({ requirement: missing, status: 'assigned', build: response.build, sourceVersion: response.build.version });
+    } else {
+      console.log(chalk.gray(`  Skipped ${formatPlatformRequirement(missing)}`));
+      assignments.push({ requirement: missing, status: 'skipped' });
+    }
+  }
+
+  return assignments;
+}
+
+async function applyFallbacks(versionId: string, assignments: FallbackAssignment[], quiet = false): Promise<void> {
+  for (const assignment of assignments) {
+    if (assignment.status !== 'assigned') continue;
+    const build = assignment.build;
+    const assignSpinner = quiet ? null : startSpinner(`Assigning build from ${assignment.sourceVersion}...`);
+
+    const { error: insertError } = await appDb()
+      .from('builds')
+      .insert({
+        version_id: versionId,
+        os: build.os,
+        arch: build.arch,
+        type: build.type,
+        variant: build.variant || 'default',
+        distribution: build.distribution || 'direct',
+        package_name: build.package_name,
+        url: build.url,
+        size: build.size,
+        sha256_checksum: build.sha256_checksum,
+        sha512_checksum: build.sha512_checksum,
+        // The column comes with migration 0006; older databases reject it even when null
+        ...(build.signature ? { signature: build.signature } : {}),
+        platform_metadata: {
+          fallback_from: assignment.sourceVersion
+        }
       });
 
-    if (uploadError) throw uploadError;
+    if (insertError) {
+      assignment.status = 'failed';
+      assignment.error = insertError.message;
+      assignSpinner?.fail(`Failed to assign build: ${insertError.message}`);
+    } else {
+      assignSpinner?.succeed(`Assigned build from ${assignment.sourceVersion}`);
+    }
+  }
+}
+
+/**
+ * Write the fallback report to --report so headless publishes can be audited by CI. Under
+ * --json the same entries are in the result's `fallbacks`; stdout stays human-readable otherwise.
+ */
+function writeFallbackReport(version: string, channel: string, options: PublishOptions, assignments: FallbackAssignment[]) {
+  if (!options.report) return;
+  const report = {
+    version,
+    channel,
+    dryRun: !!options.dryRun,
+    strategy: options.fallback,
+    assignments: assignments.map(toReportEntry),
+  };
+  writeFileSync(options.report, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+}
+
+function toReportEntry(assignment: FallbackAssignment) {
+  const build = assignment.build;
+  return {
+    platform: formatPlatformRequirement(assignment.requirement),
+    status: assignment.status,
+    fromVersion: assignment.sourceVersion ?? null,
+    variant: build ? build.variant || 'default' : null,
+    distribution: build ? build.distribution || 'direct' : null,
+    packageName: build?.package_name ?? null,
+    url: build?.url ?? null,
+    ...(assignment.error ? { error: assignment.error } : {}),
+  };
+}
+
+export interface GeneratedManifest {
+  version: string;
+  channel: string;
+  url: string;
+  // Set when the version is the channel's latest and the channel manifest was regenerated
+  channelUrl: string | null;
+}
+
+export async function generateManifest(
+  version: string,
+  options: { showSpinner?: boolean; channel?: string } = {}
+): Promise<GeneratedManifest> {
+  const showSpinner = options.showSpinner ?? true;
+  const channel = options.channel || 'stable';
+  const spinner = showSpinner ? startSpinner(`Generating manifest for ${version} (${channel})...`) : null;
+
+  try {
+    const { manifest, manifestPath, storagePrefix } = await buildVersionManifest(version, channel);
+    await uploadManifestFiles(storagePrefix, manifest, channel);
 
     const normalizedCdnUrl = cdnUrl.endsWith('/') ? cdnUrl : `${cdnUrl}/`;
 
@@ -269,6 +515,7 @@ export async function generateManifest(version: string, options: { showSpinner?:
       .eq('is_published', true)
       .order('created_at', { ascending: false });
 
+    let channelUrl: string | null = null;
     if (publishedVersions && publishedVersions.length > 0) {
       const sorted = sortVersionsDesc(publishedVersions, (v: any) => v.version_name);
       const latestVersionName = sorted[0]?.version_name;
@@ -276,21 +523,32 @@ export async function generateManifest(version: string, options: { showSpinner?:
       if (latestVersionName === version) {
         if (spinner) spinner.text = `Updating channel latest manifest for ${channel}...`;
         await generateLatestManifest(channel);
+        channelUrl = `${normalizedCdnUrl}archive/channels/${channel}/${MANIFEST_FILENAME}`;
         if (showSpinner) {
-          console.log(chalk.gray(`  Channel URL: ${normalizedCdnUrl}archive/channels/${channel}/${MANIFEST_FILENAME}`));
+          console.log(chalk.gray(`  Channel URL: ${channelUrl}`));
         }
       }
     }
+
+    const result = { version, channel, url: `${normalizedCdnUrl}archive/${manifestPath}`, channelUrl };
+    if (showSpinner) {
+      emitResult(result);
+    }
+    return result;
   } catch (error: any) {
     if (spinner) {
       spinner.fail(chalk.red(`Failed to generate manifest: ${error.message}`));
+      emitError(error);
       process.exit(1);
     }
     throw error;
   }
 }
 
-async function buildVersionManifest(version: string, channel: string): Promise<{ manifest: Manifest; manifestPath: string }> {
+async function buildVersionManifest(
+  version: string,
+  channel: string
+): Promise<{ manifest: Manifest; manifestPath: string; storagePrefix: string; versionData: any; builds: any[] }> {
   const { data: versionData, error: versionError } = await appDb()
     .from('versions')
     .select('*')
@@ -299,7 +557,7 @@ async function buildVersionManifest(version: string, channel: string): Promise<{
     .single();
 
   if (versionError || !versionData) {
-    throw new Error(`Version ${version} (${channel}) not found`);
+    throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
   }
 
   const { data: builds, error: buildsError } = await appDb()
@@ -317,50 +575,328 @@ async function buildVersionManifest(version: string, channel: string): Promise<{
   return {
     manifest: assembleVersionManifest(versionData, builds || []),
     manifestPath: `${storagePrefix}/${MANIFEST_FILENAME}`,
+    storagePrefix,
+    versionData,
+    builds: builds || [],
   };
 }
 
-export async function generateLatestManifest(channel: string) {
+/**
+ * Upload the manifest in every format enabled for the channel into a storage folder and
+ * return the paths written.
+ */
+async function uploadManifestFiles(
+  folder: string,
+  manifest: Manifest,
+  channel: string,
+  scope: ManifestScope = 'version'
+): Promise<string[]> {
+  const storage = getStorage();
+  const formats = getManifestFormats(channel);
+  const files = renderManifest(manifest, formats, scope);
+  for (const file of files) {
+    await storage.upload(`${folder}/${file.filename}`, file.body, file.contentType);
+  }
+
+  // A feed left behind for a platform or format that dropped out would keep offering its old
+  // build, and a manifest.xml.sig left after the signing key was removed no longer matches
+  const written = new Set(files.map(f => f.filename));
+  const stale = allManifestFilenames(scope).filter(f => !written.has(f));
+  if (stale.length > 0) {
+    await storage.remove(stale.map(f => `${folder}/${f}`));
+  }
+
+  return files.map(f => `${folder}/${f.filename}`);
+}
+
+async function loadPublishedChannelVersions(channel: string): Promise<{ versions: any[]; buildsByVersionId: Map<string, any[]> }> {
+  const { data: versions, error } = await appDb()
+    .from('versions')
+    .select('*')
+    .eq('is_published', true)
+    .eq('release_channel', channel)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const versionIds = (versions || []).map((v: any) => v.id);
+  const buildsByVersionId = new Map<string, any[]>();
+  if (versionIds.length === 0) {
+    return { versions: [], buildsByVersionId };
+  }
+
+  const { data: builds, error: buildsError } = await appDb()
+    .from('builds')
+    .select('*')
+    .in('version_id', versionIds)
+    .order('created_at', { ascending: false });
+
+  if (buildsError) throw buildsError;
+
+  for (const build of builds || []) {
+    const current = buildsByVersionId.get(build.version_id) || [];
+    current.push(build);
+    buildsByVersionId.set(build.version_id, current);
+  }
+
+  return { versions: versions || [], buildsByVersionId };
+}
+
+/**
+ * The channel manifest as it will be once the version is published with these builds.
+ */
+async function assemblePlannedChannelManifest(versionData: any, versionBuilds: any[]): Promise<Manifest> {
+  const { versions, buildsByVersionId } = await loadPublishedChannelVersions(versionData.release_channel);
+  const channelVersions = [...versions.filter((v: any) => v.id !== versionData.id), { ...versionData, is_published: true }];
+  buildsByVersionId.set(versionData.id, versionBuilds);
+  return assembleChannelLatestManifest(channelVersions, buildsByVersionId);
+}
+
+async function downloadChannelManifest(channel: string): Promise<Manifest | null> {
+  const data = await getStorage().download(`channels/${channel}/${MANIFEST_FILENAME}`);
+  return data ? parseManifestXml(data.toString('utf-8')) : null;
+}
+
+/**
+ * Dry-run counterpart of the publish tail: assembles both manifests as they would be
+ * uploaded (with planned fallbacks applied in memory) and diffs the channel manifest
+ * against the one currently stored. Nothing is written to the database or storage.
+ */
+async function printPublishPreview(version: string, channel: string, assignments: FallbackAssignment[]) {
+  const { data: versionData, error: versionError } = await appDb()
+    .from('versions')
+    .select('*')
+    .eq('version_name', version)
+    .eq('release_channel', channel)
+    .single();
+
+  if (versionError || !versionData) {
+    throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
+  }
+
+  const { data: builds, error: buildsError } = await appDb()
+    .from('builds')
+    .select('*')
+    .eq('version_id', versionData.id)
+    .order('created_at', { ascending: false });
+
+  if (buildsError) throw buildsError;
+
+  const now = new Date().toISOString();
+  const plannedFallbacks = assignments
+    .filter(a => a.status === 'assigned')
+    .map(a => ({
+      ...a.build,
+      version_id: versionData.id,
+      variant: a.build.variant || 'default',
+      distribution: a.build.distribution || 'direct',
+      platform_metadata: { fallback_from: a.sourceVersion },
+      created_at: now,
+    }));
+
+  const versionBuilds = [...plannedFallbacks, ...(builds || [])];
+  const versionManifest = assembleVersionManifest({ ...versionData, is_published: true }, versionBuilds);
+  const channelManifest = await assemblePlannedChannelManifest(versionData, versionBuilds);
+
+  const current = await downloadChannelManifest(channel);
+  const changes = diffManifests(current, channelManifest);
+
+  const storagePrefix = versionData.storage_key_prefix || `releases/${channel}/${version}`;
+
+  console.log(chalk.yellow('\n⚠ Dry run — nothing was written to the database or storage'));
+  const formats = getManifestFormats(channel);
+  const versionFiles = renderManifest(versionManifest, formats);
+  const channelFiles = renderManifest(channelManifest, formats, 'channel');
+  for (const file of versionFiles) {
+    console.log(chalk.bold(`\nVersion manifest (archive/${storagePrefix}/${file.filename}):`));
+    console.log(file.body);
+  }
+  for (const file of channelFiles) {
+    console.log(chalk.bold(`\nChannel manifest (archive/channels/${channel}/${file.filename}):`));
+    console.log(file.body);
+  }
+
+  console.log(chalk.bold('\nChannel manifest diff:'));
+  if (!current) {
+    console.log(chalk.gray('  No channel manifest is stored yet; every entry is new.'));
+  }
+  if (changes.length === 0) {
+    console.log(chalk.gray('  No changes'));
+  }
+  for (const change of changes) {
+    if (change.kind === 'added') {
+      console.log(chalk.green(`  + ${change.path}: ${change.after}`));
+    } else if (change.kind === 'removed') {
+      console.log(chalk.red(`  - ${change.path}: ${change.before}`));
+    } else {
+      console.log(chalk.yellow(`  ~ ${change.path}: ${change.before} → ${change.after}`));
+    }
+  }
+
+  emitResult({
+    version,
+    channel,
+    dryRun: true,
+    manifests: [
+      ...versionFiles.map(f => ({ path: `archive/${storagePrefix}/${f.filename}`, body: f.body })),
+      ...channelFiles.map(f => ({ path: `archive/channels/${channel}/${f.filename}`, body: f.body })),
+    ],
+    changes,
+    fallbacks: assignments.map(toReportEntry),
+  });
+}
+
+/**
+ * The channel manifest as it is currently derived from the database, or null when
+ * nothing in the channel is published.
+ */
+export async function assembleChannelManifest(channel: string): Promise<Manifest | null> {
+  const { versions, buildsByVersionId } = await loadPublishedChannelVersions(channel);
+  if (versions.length === 0) return null;
+  return assembleChannelLatestManifest(versions, buildsByVersionId);
+}
+
+/**
+ * Regenerate `channels/{channel}/manifest.xml` from the published versions in the channel.
+ * When no published version remains the stale channel manifest is removed and null is returned.
+ */
+export async function generateLatestManifest(channel: string): Promise<Manifest | null> {
+  return (await writeChannelManifest(channel)).manifest;
+}
+
+// generateLatestManifest, also returning the storage paths it uploaded
+async function writeChannelManifest(channel: string): Promise<{ manifest: Manifest | null; files: string[] }> {
+  try {
+    const manifest = await assembleChannelManifest(channel);
+    const channelFolder = `channels/${channel}`;
+
+    if (!manifest) {
+      // Remove every format, including ones since disabled for the channel
+      await getStorage().remove(allManifestFilenames().map(f => `${channelFolder}/${f}`));
+      return { manifest: null, files: [] };
+    }
+
+    const files = await uploadManifestFiles(channelFolder, manifest, channel, 'channel');
+
+    return { manifest, files };
+  } catch (error: any) {
+    throw new PublisherError(errorCode(error), `Failed to generate latest manifest: ${error.message}`);
+  }
+}
+
+export async function unpublishVersion(version: string, options: { channel?: string; yes?: boolean }) {
+  const channel = options.channel || 'stable';
+  const spinner = startSpinner(`Checking version ${version}...`);
+
   try {
-    const { data: versions, error } = await appDb()
+    const { data: versionData, error: versionError } = await appDb()
       .from('versions')
-      .select('*')
-      .eq('is_published', true)
+      .select('id, version_name, release_channel, is_published')
+      .eq('version_name', version)
       .eq('release_channel', channel)
-      .order('created_at', { ascending: false });
+      .single();
 
-    if (error || !versions || versions.length === 0) {
-      throw new Error('No published versions found');
+    if (versionError || !versionData) {
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
+    }
+
+    if (!versionData.is_published) {
+      throw new PublisherError('VERSION_NOT_PUBLISHED', `Version ${version} (${channel}) is not published`);
     }
 
-    const versionIds = versions.map((v: any) => v.id);
-    const { data: builds, error: buildsError } = await appDb()
+    const { data: publishedVersions, error: publishedError } = await appDb()
+      .from('versions')
+      .select('version_name')
+      .eq('release_channel', channel)
+      .eq('is_published', true);
+
+    if (publishedError) throw publishedError;
+
+    // Published builds elsewhere that were copied from this version keep working,
+    // since fallbacks point at this version's storage objects, but flag them.
+    const { data: dependentBuilds, error: depError } = await appDb()
       .from('builds')
-      .select('*')
-      .in('version_id', versionIds)
-      .order('created_at', { ascending: false });
+      .select('version_id, os, arch, type, distribution')
+      .filter('platform_metadata->>fallback_from', 'eq', version);
 
-    if (buildsError) throw buildsError;
+    if (depError) throw depError;
+
+    spinner.stop();
+
+    const ordered = sortVersionsDesc(publishedVersions || [], (v: any) => v.version_name);
+    const remaining = ordered.filter((v: any) => v.version_name !== version);
+    const isLatest = ordered[0]?.version_name === version;
 
-    const buildsByVersionId = new Map<string, any[]>();
-    for (const build of builds || []) {
-      const current = buildsByVersionId.get(build.version_id) || [];
-      current.push(build);
-      buildsByVersionId.set(build.version_id, current);
+    console.log(chalk.yellow('\n⚠ Unpublish Alert'));
+    console.log(chalk.gray(`  Channel: ${channel}`));
+    console.log(chalk.gray(`  Channel Manifest: archive/channels/${channel}/${MANIFEST_FILENAME}`));
+    if (remaining.length === 0) {
+      console.log(chalk.gray('  No other published version remains; the channel manifest will be removed.'));
+    } else if (isLatest) {
+      console.log(chalk.gray(`  Channel manifest will roll back to ${remaining[0].version_name}`));
+    } else {
+      console.log(chalk.gray(`  Channel manifest stays on ${ordered[0].version_name} (builds from ${version} are dropped)`));
+    }
+    if (dependentBuilds && dependentBuilds.length > 0) {
+      console.log(chalk.gray(`  ${dependentBuilds.length} build(s) in other versions use ${version} as a fallback source`));
     }
 
-    const manifest = assembleChannelLatestManifest(versions, buildsByVersionId);
+    if (!options.yes) {
+      if (!canPrompt()) {
+        throw new PublisherError('CONFIRMATION_REQUIRED', 'Unpublish confirmation requires an interactive terminal. Pass --yes to unpublish headlessly');
+      }
 
-    const { error: uploadError } = await supabase.storage
-      .from('archive')
-      .upload(`channels/${channel}/${MANIFEST_FILENAME}`, manifestToXml(manifest), {
-        contentType: MANIFEST_CONTENT_TYPE,
-        upsert: true
+      const response = await prompts({
+        type: 'confirm',
+        name: 'confirmUnpublish',
+        initial: false,
+        message: `Unpublish ${version} from ${channel} and regenerate the channel manifest?`,
       });
 
-    if (uploadError) throw uploadError;
+      if (!response.confirmUnpublish) {
+        console.log(chalk.yellow('Unpublish canceled by user.'));
+        return;
+      }
+    }
+
+    const unpublishSpinner = startSpinner('Unpublishing version...');
+
+    const { error: updateError } = await appDb()
+      .from('versions')
+      .update({ is_published: false })
+      .eq('id', versionData.id);
+
+    if (updateError) throw updateError;
+
+    unpublishSpinner.text = 'Regenerating channel manifest...';
 
+    let manifest: Manifest | null;
+    try {
+      manifest = await generateLatestManifest(channel);
+    } catch (manifestError: any) {
+      // Restore the flag so the stored channel manifest and the database stay consistent
+      await appDb().from('versions').update({ is_published: true }).eq('id', versionData.id);
+      throw manifestError;
+    }
+
+    unpublishSpinner.succeed(chalk.green(`✓ Version ${version} (${channel}) unpublished`));
+    if (manifest) {
+      console.log(chalk.gray(`  Channel manifest now points at ${manifest.version}`));
+    } else {
+      console.log(chalk.gray(`  Channel manifest removed: archive/channels/${channel}/${MANIFEST_FILENAME}`));
+    }
+
+    emitResult({
+      version,
+      channel,
+      unpublished: true,
+      channelVersion: manifest?.version ?? null,
+      dependentBuilds: dependentBuilds?.length ?? 0,
+    });
   } catch (error: any) {
-    throw new Error(`Failed to generate latest manifest: ${error.message}`);
+    spinner.stop();
+    console.error(chalk.red(`\nFailed to unpublish version: ${error.message}`));
+    emitError(error);
+    process.exit(1);
   }
 }
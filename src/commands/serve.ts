@@ -0,0 +1,144 @@
+import chalk from 'chalk';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { assembleChannelManifest } from './publish.js';
+import { evaluateUpdate } from './update.js';
+import { MANIFEST_FORMATS, renderManifest } from '../utils/formats.js';
+import { MANIFEST_FILENAME } from '../utils/manifest.js';
+import { isSupportedChannel, SUPPORTED_CHANNELS } from '../utils/versioning.js';
+import { ErrorCode, PublisherError, toErrorObject } from '../utils/errors.js';
+import { emitError, emitResult } from '../ui/output.js';
+
+interface ServeOptions {
+  port?: string;
+  host?: string;
+}
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  INVALID_ARGUMENT: 400,
+  VERSION_NOT_FOUND: 404,
+  FILE_NOT_FOUND: 404,
+};
+
+function send(res: ServerResponse, status: number, contentType: string, body: string) {
+  res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  res.end(body);
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  send(res, status, 'application/json', `${JSON.stringify(data, null, 2)}\n`);
+}
+
+function isTruthyParam(value: string | null): boolean {
+  return value === '1' || value === 'true';
+}
+
+/**
+ * GET /update?installed=&os=&arch=&channel=&deviceId=&variant=&distribution=&allowPrerelease=
+ */
+async function handleUpdate(url: URL, res: ServerResponse) {
+  const params = url.searchParams;
+  const decision = await evaluateUpdate(
+    params.get('installed') || '',
+    params.get('os') || '',
+    params.get('arch') || '',
+    {
+      channel: params.get('channel') || undefined,
+      deviceId: params.get('deviceId') || undefined,
+      variant: params.get('variant') || undefined,
+      distribution: params.get('distribution') || undefined,
+      allowPrerelease: isTruthyParam(params.get('allowPrerelease')),
+    }
+  );
+  sendJson(res, 200, decision);
+}
+
+/**
+ * GET /manifest/:channel[/:filename] — rendered live from the database with the same
+ * writers as publish, so the layout mirrors `archive/channels/{channel}/` on the CDN.
+ */
+async function handleManifest(channel: string, filename: string, res: ServerResponse) {
+  if (!isSupportedChannel(channel)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${channel}`, { validChannels: [...SUPPORTED_CHANNELS] });
+  }
+
+  const manifest = await assembleChannelManifest(channel);
+  if (!manifest) {
+    throw new PublisherError('VERSION_NOT_FOUND', `No published version in ${channel}`);
+  }
+
+  const file = renderManifest(manifest, [...MANIFEST_FORMATS], 'channel').find(f => f.filename === filename);
+  if (!file) {
+    throw new PublisherError('FILE_NOT_FOUND', `Unknown manifest file: ${filename}`);
+  }
+
+  send(res, 200, file.contentType, file.body);
+}
+
+async function route(req: IncomingMessage, res: ServerResponse): Promise<number> {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: { code: 'INVALID_ARGUMENT', message: `Method ${req.method} not allowed` } });
+      return 405;
+    }
+
+    if (url.pathname === '/update') {
+      await handleUpdate(url, res);
+      return 200;
+    }
+
+    const manifestMatch = url.pathname.match(/^\/manifest\/([^/]+)(?:\/([^/]+))?\/?$/);
+    if (manifestMatch) {
+      await handleManifest(decodeURIComponent(manifestMatch[1]), decodeURIComponent(manifestMatch[2] || MANIFEST_FILENAME), res);
+      return 200;
+    }
+
+    sendJson(res, 404, { error: { code: 'FILE_NOT_FOUND', message: `No route for ${url.pathname}` } });
+    return 404;
+  } catch (error: any) {
+    const body = toErrorObject(error);
+    const status = STATUS_BY_CODE[body.code] ?? 500;
+    sendJson(res, status, { error: body });
+    return status;
+  }
+}
+
+export async function serveUpdates(options: ServeOptions) {
+  const port = Number(options.port ?? 8787);
+  const host = options.host || '127.0.0.1';
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`❌ Invalid port: ${options.port}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid port: ${options.port}`));
+    process.exit(1);
+  }
+
+  const server = createServer(async (req, res) => {
+    const status = await route(req, res);
+    const color = status < 400 ? chalk.gray : chalk.yellow;
+    console.log(color(`${new Date().toISOString()} ${req.method} ${req.url} ${status}`));
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to start server: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+  const baseUrl = `http://${host}:${boundPort}`;
+
+  console.log(chalk.green(`✓ Update server listening on ${baseUrl}`));
+  console.log(chalk.gray(`  Update check: ${baseUrl}/update?installed=1.0.0&os=macos&arch=arm64&channel=stable`));
+  console.log(chalk.gray(`  Channel manifest: ${baseUrl}/manifest/stable`));
+  console.log(chalk.gray('  Press Ctrl+C to stop'));
+
+  emitResult({ url: baseUrl, host, port: boundPort });
+}
@@ -0,0 +1,142 @@
+import chalk from 'chalk';
+import { loadConfig } from '../utils/config.js';
+import { PublisherError } from '../utils/errors.js';
+import {
+  decodeToken,
+  DEFAULT_TOKEN_ROLE,
+  EXPIRY_WARNING_DAYS,
+  formatDuration,
+  getTokenExpiry,
+  mintToken,
+  parseTtl,
+  verifyTokenSignature,
+} from '../utils/token.js';
+import { emitError, emitResult } from '../ui/output.js';
+
+interface InspectOptions {
+  secret?: string;
+  warnDays?: string;
+}
+
+interface MintOptions {
+  role?: string;
+  ttl?: string;
+  secret?: string;
+}
+
+// Flags win; the environment keeps the secret out of shell history and CI logs
+function jwtSecret(options: { secret?: string }): string | undefined {
+  return options.secret || process.env.SUPABASE_JWT_SECRET;
+}
+
+function formatTimestamp(seconds: number | undefined): string | null {
+  return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+}
+
+export async function tokenInspect(token: string | undefined, options: InspectOptions) {
+  const key = token || process.env.APP_PUBLISHER_KEY || loadConfig().APP_PUBLISHER_KEY;
+  if (!key) {
+    console.error(chalk.red('❌ No APP_PUBLISHER_KEY configured. Pass a token or set APP_PUBLISHER_KEY'));
+    emitError(new PublisherError('MISSING_CREDENTIALS', 'No APP_PUBLISHER_KEY configured. Pass a token or set APP_PUBLISHER_KEY'));
+    process.exit(1);
+  }
+
+  const warnDays = options.warnDays !== undefined ? Number(options.warnDays) : EXPIRY_WARNING_DAYS;
+  if (!Number.isFinite(warnDays) || warnDays < 0) {
+    console.error(chalk.red('❌ --warn-days must be a non-negative number'));
+    emitError(new PublisherError('INVALID_ARGUMENT', '--warn-days must be a non-negative number'));
+    process.exit(1);
+  }
+
+  try {
+    const { algorithm, claims } = decodeToken(key);
+    const secret = jwtSecret(options);
+    if (secret) {
+      verifyTokenSignature(key, secret);
+    }
+    const expiry = getTokenExpiry(claims, warnDays);
+
+    emitResult({
+      source: token ? 'argument' : 'APP_PUBLISHER_KEY',
+      algorithm,
+      role: claims.role ?? null,
+      issuer: claims.iss ?? null,
+      subject: claims.sub ?? null,
+      project: claims.ref ?? null,
+      issuedAt: formatTimestamp(claims.iat),
+      expiresAt: expiry.expiresAt?.toISOString() ?? null,
+      expiresIn: expiry.remaining,
+      status: expiry.status,
+      signature: secret ? 'valid' : 'unchecked',
+    });
+
+    console.log(chalk.bold(token ? 'Token:' : 'APP_PUBLISHER_KEY:'));
+    console.log(`  Role: ${claims.role ?? chalk.yellow('none')}`);
+    console.log(`  Issuer: ${claims.iss ?? chalk.gray('none')}`);
+    if (claims.ref) console.log(`  Project: ${claims.ref}`);
+    if (claims.sub) console.log(`  Subject: ${claims.sub}`);
+    console.log(`  Algorithm: ${algorithm}`);
+    console.log(`  Issued: ${formatTimestamp(claims.iat) ?? chalk.gray('unknown')}`);
+
+    if (expiry.status === 'no-expiry') {
+      console.log(`  Expires: ${chalk.yellow('never')}`);
+    } else {
+      console.log(`  Expires: ${expiry.expiresAt!.toISOString()}`);
+    }
+    console.log(`  Signature: ${secret ? chalk.green('valid') : chalk.gray('not checked (pass --secret or set SUPABASE_JWT_SECRET)')}`);
+    console.log('');
+
+    if (claims.role !== DEFAULT_TOKEN_ROLE) {
+      console.log(chalk.yellow(`⚠️  Role is ${claims.role ?? 'missing'}; the publisher schema is granted to ${DEFAULT_TOKEN_ROLE}`));
+    }
+    if (expiry.status === 'expired') {
+      console.log(chalk.red(`✗ Expired ${formatDuration(expiry.remaining!)} ago. Mint a new key: publisher token:mint`));
+    } else if (expiry.status === 'expiring') {
+      console.log(chalk.yellow(`⚠️  Expires in ${formatDuration(expiry.remaining!)}. Replace it before then: publisher token:mint`));
+    } else if (expiry.status === 'valid') {
+      console.log(chalk.green(`✓ Valid for ${formatDuration(expiry.remaining!)}`));
+    } else {
+      console.log(chalk.yellow('⚠️  The token never expires; prefer short-lived tokens from publisher token:mint'));
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to inspect token: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * The token alone goes to stdout so CI can capture it:
+ *   export APP_PUBLISHER_KEY=$(publisher token:mint --ttl 1h)
+ */
+export async function tokenMint(options: MintOptions) {
+  const secret = jwtSecret(options);
+  if (!secret) {
+    console.error(chalk.red('❌ The Supabase JWT secret is required. Pass --secret or set SUPABASE_JWT_SECRET'));
+    emitError(new PublisherError('MISSING_CREDENTIALS', 'The Supabase JWT secret is required. Pass --secret or set SUPABASE_JWT_SECRET'));
+    process.exit(1);
+  }
+
+  try {
+    const role = options.role || DEFAULT_TOKEN_ROLE;
+    const ttlSeconds = parseTtl(options.ttl || '1h');
+    const token = mintToken({ role, ttlSeconds, secret });
+    const { claims } = decodeToken(token);
+
+    emitResult({
+      token,
+      role,
+      issuer: claims.iss,
+      id: claims.jti,
+      expiresAt: formatTimestamp(claims.exp),
+      ttl: ttlSeconds,
+    });
+
+    console.log(token);
+    console.error(chalk.gray(`Role ${role}, expires ${formatTimestamp(claims.exp)} (in ${formatDuration(ttlSeconds)})`));
+  } catch (error: any) {
+    console.error(chalk.red(`Failed to mint token: ${error.message}`));
+    emitError(error);
+    process.exit(1);
+  }
+}
@@ -1,187 +1,315 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import semver from 'semver';
-import { supabase } from '../index.js';
+import { supabase } from '../client.js';
 import {
   assertValidPlatform,
+  DEFAULT_VARIANT,
   getUpdatePolicyFromVersion,
   isDeviceInRolloutBucket,
   isSupportedChannel,
+  isSupportedDistribution,
+  isValidVariant,
   isVersionGreater,
   isWithinRolloutWindow,
   sortVersionsDesc,
   SUPPORTED_CHANNELS,
+  SUPPORTED_DISTRIBUTIONS,
 } from '../utils/versioning.js';
+import { PublisherError } from '../utils/errors.js';
+import { emitError, emitResult, startSpinner } from '../ui/output.js';
 
 const appDb = () => supabase.schema('publisher');
 
-interface CheckUpdateOptions {
+export interface CheckUpdateOptions {
   channel?: string;
   deviceId?: string;
   allowPrerelease?: boolean;
+  variant?: string;
+  distribution?: string;
 }
 
-export async function checkForUpdate(
-  installedVersion: string,
-  os: string,
-  arch: string,
-  options: CheckUpdateOptions
-) {
-  if (!semver.valid(installedVersion)) {
-    console.error(chalk.red(`❌ Invalid installed version: ${installedVersion}`));
-    process.exit(1);
+interface BuildFilter {
+  os: string;
+  arch: string;
+  variant: string;
+  distribution?: string;
+}
+
+export interface UpdateBuild {
+  type: string;
+  variant: string;
+  distribution: 'direct' | 'store';
+  packageName: string | null;
+  url: string;
+  size: number | null;
+  sha256: string | null;
+  sha512: string | null;
+  signature: string | null;
+}
+
+export type UpdateDecision =
+  | {
+    updateAvailable: false;
+    installedVersion: string;
+    channel: string;
+    reason?: 'no_published_versions';
   }
+  | {
+    updateAvailable: true;
+    installedVersion: string;
+    targetVersion: string;
+    channel: string;
+    mandatory: boolean;
+    minSupportedVersion: string | null;
+    rolloutPercentage: number;
+    releaseNotes: string | null;
+    build: UpdateBuild | null;
+  };
 
-  try {
-    assertValidPlatform(os, arch);
-  } catch (error: any) {
-    console.error(chalk.red(`❌ ${error.message}`));
-    process.exit(1);
+/**
+ * Throws INVALID_ARGUMENT for anything the eligibility query can't be run with.
+ */
+export function validateUpdateRequest(installedVersion: string, os: string, arch: string, options: CheckUpdateOptions) {
+  if (!semver.valid(installedVersion)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid installed version: ${installedVersion}`);
   }
 
+  assertValidPlatform(os, arch);
+
   if (options.channel && !isSupportedChannel(options.channel)) {
-    console.error(chalk.red(`❌ Invalid channel: ${options.channel}`));
-    console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
-    process.exit(1);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${options.channel}`, { validChannels: [...SUPPORTED_CHANNELS] });
   }
 
-  const spinner = ora('Checking update eligibility...').start();
+  if (options.variant && !isValidVariant(options.variant)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid variant: "${options.variant}"`);
+  }
 
-  try {
-    const requestedChannel = options.channel || 'stable';
+  if (options.distribution && !isSupportedDistribution(options.distribution)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid distribution: ${options.distribution}`, { validDistributions: [...SUPPORTED_DISTRIBUTIONS] });
+  }
+}
+
+/**
+ * Decide whether a client should update: the newest published version in the channel
+ * that is newer than the installed one, inside its rollout window and bucket, and has a
+ * build for the client's platform, variant and distribution.
+ */
+export async function evaluateUpdate(
+  installedVersion: string,
+  os: string,
+  arch: string,
+  options: CheckUpdateOptions
+): Promise<UpdateDecision> {
+  validateUpdateRequest(installedVersion, os, arch, options);
+
+  const requestedChannel = options.channel || 'stable';
+  const filter: BuildFilter = {
+    os,
+    arch,
+    variant: options.variant || DEFAULT_VARIANT,
+    distribution: options.distribution,
+  };
 
-    const { data: versions, error } = await appDb()
-      .from('versions')
-      .select('*')
-      .eq('is_published', true)
-      .eq('release_channel', requestedChannel)
-      .order('created_at', { ascending: false });
+  const { data: versions, error } = await appDb()
+    .from('versions')
+    .select('*')
+    .eq('is_published', true)
+    .eq('release_channel', requestedChannel)
+    .order('created_at', { ascending: false });
 
-    if (error) throw error;
+  if (error) throw error;
 
-    if (!versions || versions.length === 0) {
-      spinner.stop();
-      console.log(chalk.yellow('No published versions available'));
-      return;
+  if (!versions || versions.length === 0) {
+    return { updateAvailable: false, installedVersion, channel: requestedChannel, reason: 'no_published_versions' };
+  }
+
+  const versionIds = versions.map((version: any) => version.id);
+  const { data: versionBuilds, error: buildsError } = await appDb()
+    .from('builds')
+    .select('*')
+    .in('version_id', versionIds)
+    .order('created_at', { ascending: false });
+
+  if (buildsError) throw buildsError;
+
+  const buildsByVersionId = new Map<string, any[]>();
+  for (const build of versionBuilds || []) {
+    const current = buildsByVersionId.get(build.version_id) || [];
+    current.push({
+      os: build.os,
+      arch: build.arch,
+      type: build.type,
+      variant: build.variant,
+      distribution: build.distribution,
+      packageName: build.package_name,
+      url: build.url,
+      size: build.size,
+      platformMetadata: build.platform_metadata,
+      createdAt: build.created_at,
+      sha256Checksum: build.sha256_checksum,
+      sha512Checksum: build.sha512_checksum,
+      signature: build.signature
+    });
+    buildsByVersionId.set(build.version_id, current);
+  }
+
+  const versionsWithPlatforms = versions.map((version: any) => ({
+    ...version,
+    platforms: buildsByVersionId.get(version.id) || []
+  }));
+
+  const orderedVersions = sortVersionsDesc(versionsWithPlatforms, (v: any) => v.version_name);
+  const now = new Date();
+
+  const eligible = orderedVersions.find((version: any) => {
+    if (!isVersionGreater(version.version_name, installedVersion)) {
+      return false;
     }
 
-    const versionIds = versions.map((version: any) => version.id);
-    const { data: versionBuilds, error: buildsError } = await appDb()
-      .from('builds')
-      .select('*')
-      .in('version_id', versionIds)
-      .order('created_at', { ascending: false });
-
-    if (buildsError) throw buildsError;
-
-    const buildsByVersionId = new Map<string, any[]>();
-    for (const build of versionBuilds || []) {
-      const current = buildsByVersionId.get(build.version_id) || [];
-      current.push({
-        os: build.os,
-        arch: build.arch,
-        type: build.type,
-        distribution: build.distribution,
-        packageName: build.package_name,
-        url: build.url,
-        size: build.size,
-        platformMetadata: build.platform_metadata,
-        createdAt: build.created_at,
-        sha256Checksum: build.sha256_checksum,
-        sha512Checksum: build.sha512_checksum
-      });
-      buildsByVersionId.set(build.version_id, current);
+    if (!options.allowPrerelease && semver.prerelease(version.version_name)) {
+      return false;
     }
 
-    const versionsWithPlatforms = versions.map((version: any) => ({
-      ...version,
-      platforms: buildsByVersionId.get(version.id) || []
-    }));
+    const policy = getUpdatePolicyFromVersion(version);
 
-    const orderedVersions = sortVersionsDesc(versionsWithPlatforms, (v: any) => v.version_name);
-    const now = new Date();
+    if (!isWithinRolloutWindow(policy, now)) {
+      return false;
+    }
 
-    const eligible = orderedVersions.find((version: any) => {
-      if (!isVersionGreater(version.version_name, installedVersion)) {
-        return false;
-      }
+    if (!isDeviceInRolloutBucket(options.deviceId, policy.rolloutPercentage)) {
+      return false;
+    }
 
-      if (!options.allowPrerelease && semver.prerelease(version.version_name)) {
-        return false;
-      }
+    const builds = Array.isArray(version.platforms) ? version.platforms : [];
+    return findCompatibleBuilds(builds, filter).length > 0;
+  });
+
+  if (!eligible) {
+    return { updateAvailable: false, installedVersion, channel: requestedChannel };
+  }
 
-      const policy = getUpdatePolicyFromVersion(version);
+  const policy = getUpdatePolicyFromVersion(eligible);
+  const builds = Array.isArray(eligible.platforms) ? eligible.platforms : [];
+  const selectedBuild = selectPreferredBuild(builds, filter);
 
-      if (!isWithinRolloutWindow(policy, now)) {
-        return false;
-      }
+  const isMinSupportedBlocked =
+    !!policy.minSupportedVersion &&
+    !!semver.valid(policy.minSupportedVersion) &&
+    semver.lt(installedVersion, policy.minSupportedVersion);
 
-      if (!isDeviceInRolloutBucket(options.deviceId, policy.rolloutPercentage)) {
-        return false;
+  return {
+    updateAvailable: true,
+    installedVersion,
+    targetVersion: eligible.version_name,
+    channel: policy.channel,
+    mandatory: Boolean(eligible.is_mandatory || isMinSupportedBlocked),
+    minSupportedVersion: policy.minSupportedVersion ?? null,
+    rolloutPercentage: policy.rolloutPercentage,
+    releaseNotes: eligible.release_notes ?? null,
+    build: selectedBuild
+      ? {
+        type: selectedBuild.type,
+        variant: selectedBuild.variant || DEFAULT_VARIANT,
+        distribution: selectedBuild.distribution,
+        packageName: selectedBuild.packageName ?? null,
+        url: selectedBuild.url,
+        size: selectedBuild.size ?? null,
+        sha256: selectedBuild.sha256Checksum || null,
+        sha512: selectedBuild.sha512Checksum || null,
+        signature: selectedBuild.signature || null,
       }
+      : null,
+  };
+}
 
-      const builds = Array.isArray(version.platforms) ? version.platforms : [];
-      const hasCompatibleBuild = builds.some((build: any) =>
-        build.os === os &&
-        build.arch === arch &&
-        (build.type === 'installer' || build.type === 'patch')
-      );
+export async function checkForUpdate(
+  installedVersion: string,
+  os: string,
+  arch: string,
+  options: CheckUpdateOptions
+) {
+  try {
+    validateUpdateRequest(installedVersion, os, arch, options);
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    if (error.details?.validChannels) {
+      console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
+    }
+    if (error.details?.validDistributions) {
+      console.error(chalk.gray(`   Supported distributions: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`));
+    }
+    emitError(error);
+    process.exit(1);
+  }
 
-      return hasCompatibleBuild;
-    });
+  const spinner = startSpinner('Checking update eligibility...');
 
+  try {
+    const decision = await evaluateUpdate(installedVersion, os, arch, options);
     spinner.stop();
+    emitResult(decision);
 
-    if (!eligible) {
+    if (!decision.updateAvailable) {
+      if (decision.reason === 'no_published_versions') {
+        console.log(chalk.yellow('No published versions available'));
+        return;
+      }
       console.log(chalk.green('✓ No update required'));
       console.log(chalk.gray(`  Installed version: ${installedVersion}`));
-      console.log(chalk.gray(`  Channel: ${requestedChannel}`));
+      console.log(chalk.gray(`  Channel: ${decision.channel}`));
       return;
     }
 
-    const policy = getUpdatePolicyFromVersion(eligible);
-    const builds = Array.isArray(eligible.platforms) ? eligible.platforms : [];
-    const selectedBuild = selectPreferredBuild(builds, os, arch);
-
-    const isMinSupportedBlocked =
-      !!policy.minSupportedVersion &&
-      !!semver.valid(policy.minSupportedVersion) &&
-      semver.lt(installedVersion, policy.minSupportedVersion);
-
-    const mandatory = Boolean(eligible.is_mandatory || isMinSupportedBlocked);
-
     console.log(chalk.bold('\nUpdate available:'));
     console.log(chalk.gray(`  Installed: ${installedVersion}`));
-    console.log(chalk.gray(`  Target: ${eligible.version_name}`));
-    console.log(chalk.gray(`  Channel: ${policy.channel}`));
-    console.log(chalk.gray(`  Mandatory: ${mandatory ? 'yes' : 'no'}`));
+    console.log(chalk.gray(`  Target: ${decision.targetVersion}`));
+    console.log(chalk.gray(`  Channel: ${decision.channel}`));
+    console.log(chalk.gray(`  Mandatory: ${decision.mandatory ? 'yes' : 'no'}`));
 
-    if (policy.minSupportedVersion) {
-      console.log(chalk.gray(`  Min Supported: ${policy.minSupportedVersion}`));
+    if (decision.minSupportedVersion) {
+      console.log(chalk.gray(`  Min Supported: ${decision.minSupportedVersion}`));
     }
 
-    if (selectedBuild) {
-      console.log(chalk.gray(`  Build Type: ${selectedBuild.type} (${selectedBuild.distribution || 'direct'})`));
-      console.log(chalk.gray(`  URL: ${selectedBuild.url}`));
-      if (selectedBuild.sha256Checksum) {
-        console.log(chalk.gray(`  SHA256: ${selectedBuild.sha256Checksum}`));
+    if (decision.build) {
+      console.log(chalk.gray(`  Build Type: ${decision.build.type} (${decision.build.distribution}) [variant: ${decision.build.variant}]`));
+      console.log(chalk.gray(`  URL: ${decision.build.url}`));
+      if (decision.build.sha256) {
+        console.log(chalk.gray(`  SHA256: ${decision.build.sha256}`));
       }
     }
 
-    console.log(chalk.gray(`  Release Notes: ${eligible.release_notes || 'N/A'}`));
+    console.log(chalk.gray(`  Release Notes: ${decision.releaseNotes || 'N/A'}`));
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to check update: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
-function selectPreferredBuild(builds: any[], os: string, arch: string) {
-  const candidates = builds.filter((build: any) =>
-    build.os === os &&
-    build.arch === arch &&
-    (build.type === 'patch' || build.type === 'installer')
+/**
+ * Installer/patch builds for the platform in the requested distribution (any when unset).
+ * Builds of the requested variant win; without any, the default variant is used.
+ */
+function findCompatibleBuilds(builds: any[], filter: BuildFilter): any[] {
+  const compatible = builds.filter((build: any) =>
+    build.os === filter.os &&
+    build.arch === filter.arch &&
+    (build.type === 'installer' || build.type === 'patch') &&
+    (!filter.distribution || resolveDistribution(build) === filter.distribution)
   );
 
+  const variantOf = (build: any) => build.variant || DEFAULT_VARIANT;
+  const requested = compatible.filter((build: any) => variantOf(build) === filter.variant);
+  if (requested.length > 0 || filter.variant === DEFAULT_VARIANT) {
+    return requested;
+  }
+
+  return compatible.filter((build: any) => variantOf(build) === DEFAULT_VARIANT);
+}
+
+function selectPreferredBuild(builds: any[], filter: BuildFilter) {
+  const candidates = findCompatibleBuilds(builds, filter);
+
   if (candidates.length === 0) {
     return null;
   }
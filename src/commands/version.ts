@@ -1,9 +1,9 @@
-import ora from 'ora';
 import chalk from 'chalk';
 import semver from 'semver';
 import prompts from 'prompts';
-import { supabase } from '../index.js';
+import { supabase, cdnUrl } from '../client.js';
 import { generateLatestManifest } from './publish.js';
+import { buildCdnUrl, storagePathFromUrl } from './build.js';
 import {
   SUPPORTED_CHANNELS,
   buildVersionMetadataWithPolicy,
@@ -11,8 +11,11 @@ import {
   isSupportedChannel,
   validateSemverOrThrow,
 } from '../utils/versioning.js';
+import { PublisherError } from '../utils/errors.js';
+import { getStorage } from '../storage/index.js';
+import { canPrompt, emitError, emitResult, startSpinner } from '../ui/output.js';
 
-interface CreateVersionOptions {
+export interface CreateVersionOptions {
   notes?: string;
   changelog?: string;
   mandatory?: boolean;
@@ -23,74 +26,107 @@ interface CreateVersionOptions {
   rolloutEndAt?: string;
 }
 
-export async function createVersion(version: string, options: CreateVersionOptions) {
+/**
+ * Throws INVALID_ARGUMENT (with a `hint` detail) for options a version can't be created with.
+ * Returns the parsed rollout percentage.
+ */
+function validateCreateVersion(version: string, options: CreateVersionOptions): number | null {
   if (!semver.valid(version)) {
-    console.error(chalk.red(`❌ Invalid semantic version: ${version}`));
-    console.error(chalk.gray('   Expected format: MAJOR.MINOR.PATCH (e.g., 1.0.0, 2.1.3-beta.1)'));
-    process.exit(1);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid semantic version: ${version}`, {
+      hint: 'Expected format: MAJOR.MINOR.PATCH (e.g., 1.0.0, 2.1.3-beta.1)',
+    });
   }
 
   if (options.channel && !isSupportedChannel(options.channel)) {
-    console.error(chalk.red(`❌ Invalid channel: ${options.channel}`));
-    console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
-    process.exit(1);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${options.channel}`, {
+      hint: `Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`,
+    });
   }
 
   if (options.minSupported && !semver.valid(options.minSupported)) {
-    console.error(chalk.red(`❌ Invalid semantic version for --min-supported: ${options.minSupported}`));
-    process.exit(1);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid semantic version for --min-supported: ${options.minSupported}`);
   }
 
   const rolloutPercentage = parseRolloutPercentage(options.rollout);
 
   if (options.rollout && rolloutPercentage === null) {
-    console.error(chalk.red(`❌ Invalid rollout percentage: ${options.rollout}`));
-    console.error(chalk.gray('   Expected value between 0 and 100'));
-    process.exit(1);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid rollout percentage: ${options.rollout}`, {
+      hint: 'Expected value between 0 and 100',
+    });
   }
 
-  const spinner = ora(`Creating version ${version}...`).start();
+  return rolloutPercentage;
+}
+
+/**
+ * Insert an unpublished version row and return it.
+ */
+export async function createVersionRecord(version: string, options: CreateVersionOptions): Promise<any> {
+  const rolloutPercentage = validateCreateVersion(version, options);
+  const releaseChannel = options.channel || 'stable';
+  const storageKeyPrefix = `releases/${releaseChannel}/${version}`;
+  const updatePolicy = {
+    channel: releaseChannel as 'stable' | 'beta' | 'alpha',
+    minSupportedVersion: options.minSupported,
+    rolloutPercentage: rolloutPercentage ?? 100,
+    rolloutStartAt: options.rolloutStartAt,
+    rolloutEndAt: options.rolloutEndAt,
+  };
+
+  const { data, error } = await supabase
+    .schema('publisher')
+    .from('versions')
+    .insert({
+      version_name: version,
+      release_channel: releaseChannel,
+      min_supported_version: options.minSupported,
+      rollout_percentage: rolloutPercentage ?? 100,
+      rollout_start_at: options.rolloutStartAt,
+      rollout_end_at: options.rolloutEndAt,
+      storage_key_prefix: storageKeyPrefix,
+      release_notes: options.notes,
+      changelog: options.changelog,
+      is_mandatory: options.mandatory || false,
+      is_published: false,
+      metadata: buildVersionMetadataWithPolicy({}, updatePolicy)
+    })
+    .select()
+    .single();
+
+  // 23505: unique_violation on (version_name, release_channel)
+  if (error?.code === '23505') {
+    throw new PublisherError('VERSION_EXISTS', `Version ${version} (${releaseChannel}) already exists`);
+  }
+  if (error) throw error;
+  return data;
+}
 
+export async function createVersion(version: string, options: CreateVersionOptions) {
   try {
-    const releaseChannel = options.channel || 'stable';
-    const storageKeyPrefix = `releases/${releaseChannel}/${version}`;
-    const updatePolicy = {
-      channel: releaseChannel as 'stable' | 'beta' | 'alpha',
-      minSupportedVersion: options.minSupported,
-      rolloutPercentage: rolloutPercentage ?? 100,
-      rolloutStartAt: options.rolloutStartAt,
-      rolloutEndAt: options.rolloutEndAt,
-    };
+    validateCreateVersion(version, options);
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    if (error.details?.hint) {
+      console.error(chalk.gray(`   ${error.details.hint}`));
+    }
+    emitError(error);
+    process.exit(1);
+  }
 
-    const { data, error } = await supabase
-      .schema('publisher')
-      .from('versions')
-      .insert({
-        version_name: version,
-        release_channel: releaseChannel,
-        min_supported_version: options.minSupported,
-        rollout_percentage: rolloutPercentage ?? 100,
-        rollout_start_at: options.rolloutStartAt,
-        rollout_end_at: options.rolloutEndAt,
-        storage_key_prefix: storageKeyPrefix,
-        release_notes: options.notes,
-        changelog: options.changelog,
-        is_mandatory: options.mandatory || false,
-        is_published: false,
-        metadata: buildVersionMetadataWithPolicy({}, updatePolicy)
-      })
-      .select()
-      .single();
+  const spinner = startSpinner(`Creating version ${version}...`);
 
-    if (error) throw error;
+  try {
+    const data = await createVersionRecord(version, options);
 
     spinner.succeed(chalk.green(`✓ Version ${version} created`));
     console.log(chalk.gray(`  ID: ${data.id}`));
-    console.log(chalk.gray(`  Channel: ${releaseChannel}`));
-    console.log(chalk.gray(`  Storage Prefix: ${storageKeyPrefix}`));
+    console.log(chalk.gray(`  Channel: ${data.release_channel}`));
+    console.log(chalk.gray(`  Storage Prefix: ${data.storage_key_prefix}`));
     console.log(chalk.gray(`  Status: Unpublished`));
+    emitResult(toVersionJson(data));
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to create version: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -106,12 +142,14 @@ interface SetVersionPolicyOptions {
 export async function setVersionPolicy(version: string, options: SetVersionPolicyOptions) {
   if (!semver.valid(version)) {
     console.error(chalk.red(`❌ Invalid semantic version: ${version}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid semantic version: ${version}`));
     process.exit(1);
   }
 
   if (options.channel && !isSupportedChannel(options.channel)) {
     console.error(chalk.red(`❌ Invalid channel: ${options.channel}`));
     console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${options.channel}`));
     process.exit(1);
   }
 
@@ -120,6 +158,7 @@ export async function setVersionPolicy(version: string, options: SetVersionPolic
       validateSemverOrThrow(options.minSupported, 'min-supported');
     } catch (error: any) {
       console.error(chalk.red(`❌ ${error.message}`));
+      emitError(error);
       process.exit(1);
     }
   }
@@ -128,11 +167,12 @@ export async function setVersionPolicy(version: string, options: SetVersionPolic
   if (options.rollout && rolloutPercentage === null) {
     console.error(chalk.red(`❌ Invalid rollout percentage: ${options.rollout}`));
     console.error(chalk.gray('   Expected value between 0 and 100'));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid rollout percentage: ${options.rollout}`));
     process.exit(1);
   }
 
   const selectedChannel = options.channel || 'stable';
-  const spinner = ora(`Updating policy for ${version} (${selectedChannel})...`).start();
+  const spinner = startSpinner(`Updating policy for ${version} (${selectedChannel})...`);
 
   try {
     const { data: existing, error: fetchError } = await supabase
@@ -144,7 +184,7 @@ export async function setVersionPolicy(version: string, options: SetVersionPolic
       .single();
 
     if (fetchError || !existing) {
-      throw new Error(`Version ${version} (${selectedChannel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${selectedChannel}) not found`);
     }
 
     const currentPolicy = getUpdatePolicyFromVersion(existing);
@@ -181,8 +221,10 @@ export async function setVersionPolicy(version: string, options: SetVersionPolic
     if (nextPolicy.minSupportedVersion) {
       console.log(chalk.gray(`  Min Supported: ${nextPolicy.minSupportedVersion}`));
     }
+    emitResult({ version, channel: nextPolicy.channel, updatePolicy: nextPolicy });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to update policy: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -198,12 +240,14 @@ interface UpdateVersionOptions {
 export async function updateVersion(version: string, options: UpdateVersionOptions) {
   if (!semver.valid(version)) {
     console.error(chalk.red(`❌ Invalid semantic version: ${version}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid semantic version: ${version}`));
     process.exit(1);
   }
 
   if (options.channel && !isSupportedChannel(options.channel)) {
     console.error(chalk.red(`❌ Invalid channel: ${options.channel}`));
     console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${options.channel}`));
     process.exit(1);
   }
 
@@ -215,11 +259,12 @@ export async function updateVersion(version: string, options: UpdateVersionOptio
 
   if (Object.keys(updates).length === 0) {
     console.error(chalk.red('❌ Nothing to update. Provide at least one of --notes, --changelog, --mandatory, or --no-mandatory.'));
+    emitError(new PublisherError('INVALID_ARGUMENT', 'Nothing to update. Provide at least one of --notes, --changelog, --mandatory, or --no-mandatory.'));
     process.exit(1);
   }
 
   const selectedChannel = options.channel || 'stable';
-  const spinner = ora(`Updating version ${version} (${selectedChannel})...`).start();
+  const spinner = startSpinner(`Updating version ${version} (${selectedChannel})...`);
 
   try {
     const { data: existing, error: fetchError } = await supabase
@@ -231,14 +276,16 @@ export async function updateVersion(version: string, options: UpdateVersionOptio
       .single();
 
     if (fetchError || !existing) {
-      throw new Error(`Version ${version} (${selectedChannel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${selectedChannel}) not found`);
     }
 
-    const { error: updateError } = await supabase
+    const { data: updated, error: updateError } = await supabase
       .schema('publisher')
       .from('versions')
       .update(updates)
-      .eq('id', existing.id);
+      .eq('id', existing.id)
+      .select()
+      .single();
 
     if (updateError) throw updateError;
 
@@ -250,8 +297,10 @@ export async function updateVersion(version: string, options: UpdateVersionOptio
         : String(value);
       console.log(chalk.gray(`  ${label}: ${display}`));
     }
+    emitResult(toVersionJson(updated));
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to update version: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
@@ -264,14 +313,14 @@ interface ListVersionsOptions {
 }
 
 export async function listVersions(options: ListVersionsOptions) {
-  const spinner = ora('Fetching versions...').start();
+  const spinner = startSpinner('Fetching versions...');
 
   try {
     const limit = options.limit ? parseInt(options.limit) : 20;
     const offset = options.offset ? parseInt(options.offset) : 0;
 
     if (options.channel && !isSupportedChannel(options.channel)) {
-      throw new Error(`Invalid channel: ${options.channel}. Supported: ${SUPPORTED_CHANNELS.join(', ')}`);
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${options.channel}. Supported: ${SUPPORTED_CHANNELS.join(', ')}`);
     }
 
     let query = supabase
@@ -295,6 +344,13 @@ export async function listVersions(options: ListVersionsOptions) {
 
     spinner.stop();
 
+    emitResult({
+      versions: (data || []).map(toVersionJson),
+      total: count || 0,
+      limit,
+      offset,
+    });
+
     if (!data || data.length === 0) {
       console.log(chalk.yellow('No versions found'));
       return;
@@ -325,10 +381,33 @@ export async function listVersions(options: ListVersionsOptions) {
     }
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to list versions: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
+/**
+ * JSON shape of a version row for --json output.
+ */
+export function toVersionJson(v: any) {
+  return {
+    id: v.id,
+    version: v.version_name,
+    channel: v.release_channel,
+    published: !!v.is_published,
+    mandatory: !!v.is_mandatory,
+    releaseNotes: v.release_notes ?? null,
+    changelog: v.changelog ?? null,
+    storagePrefix: v.storage_key_prefix ?? null,
+    updatePolicy: getUpdatePolicyFromVersion(v),
+    createdAt: v.created_at ?? null,
+  };
+}
+
+function toDependentJson(b: any) {
+  return { versionId: b.version_id, os: b.os, arch: b.arch, type: b.type, distribution: b.distribution || 'direct' };
+}
+
 function parseRolloutPercentage(value?: string): number | null {
   if (value === undefined) {
     return null;
@@ -347,7 +426,7 @@ export async function deleteVersion(
   options: { channel?: string; yes?: boolean; force?: boolean }
 ) {
   const channel = options.channel || 'stable';
-  const spinner = ora(`Looking up version ${version} (${channel})...`).start();
+  const spinner = startSpinner(`Looking up version ${version} (${channel})...`);
 
   try {
     // Resolve version record
@@ -360,7 +439,7 @@ export async function deleteVersion(
       .single();
 
     if (versionError || !versionData) {
-      throw new Error(`Version ${version} (${channel}) not found`);
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${channel}) not found`);
     }
 
     // Get all builds for this version
@@ -383,6 +462,28 @@ export async function deleteVersion(
 
     if (depError) throw depError;
 
+    // Builds promoted into other channels with --reference point at this version's storage
+    const { data: promotedBuilds, error: promotedError } = await supabase
+      .schema('publisher')
+      .from('builds')
+      .select('version_id, os, arch, type, distribution, platform_metadata')
+      .filter('platform_metadata->>promoted_from', 'eq', `${channel}/${version}`)
+      .filter('platform_metadata->>storage_ref', 'eq', 'true');
+
+    if (promotedError) throw promotedError;
+
+    if (promotedBuilds && promotedBuilds.length > 0) {
+      console.log(chalk.red(`\n✗ Conflict: ${promotedBuilds.length} promoted build(s) in other channels reference ${version}'s storage:`));
+      promotedBuilds.forEach((b: any) => {
+        console.log(chalk.gray(`  - version_id=${b.version_id} | ${b.os}/${b.arch}/${b.type}/${b.distribution || 'direct'}`));
+      });
+      console.log(chalk.yellow('\n  Delete those versions, or promote again without --reference, before deleting this version.'));
+      emitError(new PublisherError('CONFLICT', `${promotedBuilds.length} promoted build(s) in other channels reference ${version}'s storage`, {
+        dependents: promotedBuilds.map(toDependentJson),
+      }));
+      process.exit(1);
+    }
+
     if (dependentBuilds && dependentBuilds.length > 0) {
       console.log(chalk.red(`\n✗ Conflict: ${dependentBuilds.length} build(s) in other versions reference ${version} as a fallback:`));
       dependentBuilds.forEach((b: any) => {
@@ -390,6 +491,9 @@ export async function deleteVersion(
       });
       console.log(chalk.yellow('\n  Delete or reassign those fallback builds before deleting this version.'));
       if (!options.force) {
+        emitError(new PublisherError('CONFLICT', `${dependentBuilds.length} build(s) in other versions reference ${version} as a fallback`, {
+          dependents: dependentBuilds.map(toDependentJson),
+        }));
         process.exit(1);
       }
       console.log(chalk.yellow('  --force specified, proceeding anyway...'));
@@ -398,7 +502,8 @@ export async function deleteVersion(
     // Block deletion of published versions unless --force
     if (versionData.is_published && !options.force) {
       console.log(chalk.red(`\n✗ Version ${version} is currently published.`));
-      console.log(chalk.gray('  Unpublish it first, or use --force to delete a published version.'));
+      console.log(chalk.gray(`  Unpublish it first (publisher unpublish ${version} --channel ${channel}), or use --force to delete a published version.`));
+      emitError(new PublisherError('CONFLICT', `Version ${version} is currently published. Unpublish it first or use --force`));
       process.exit(1);
     }
 
@@ -413,6 +518,9 @@ export async function deleteVersion(
     console.log(chalk.gray(`  Published: ${versionData.is_published ? chalk.red('yes') : 'no'}`));
 
     if (!options.yes) {
+      if (!canPrompt()) {
+        throw new PublisherError('CONFIRMATION_REQUIRED', 'Delete confirmation requires an interactive terminal. Pass --yes to delete headlessly');
+      }
       const response = await prompts({
         type: 'confirm',
         name: 'confirm',
@@ -426,7 +534,7 @@ export async function deleteVersion(
       }
     }
 
-    const deleteSpinner = ora('Deleting version and builds...').start();
+    const deleteSpinner = startSpinner('Deleting version and builds...');
 
     // Delete all builds from database first
     if (builds && builds.length > 0) {
@@ -452,7 +560,7 @@ export async function deleteVersion(
     const storagePrefix = versionData.storage_key_prefix || `releases/${channel}/${version}`;
     deleteSpinner.text = `Removing storage folder ${storagePrefix}...`;
     try {
-      await removeStorageFolder('archive', storagePrefix);
+      await getStorage().removeFolder(storagePrefix);
     } catch (storageError: any) {
       // Non-fatal — DB records are already cleaned up
       console.log(chalk.yellow(`\n  ⚠ Storage cleanup failed: ${storageError.message}`));
@@ -463,51 +571,209 @@ export async function deleteVersion(
     );
 
     // Regenerate channel latest manifest if this was a published version
+    let regenerationError: string | null = null;
     if (versionData.is_published) {
-      const manifestSpinner = ora(`Regenerating channel manifest for ${channel}...`).start();
+      const manifestSpinner = startSpinner(`Regenerating channel manifest for ${channel}...`);
       try {
-        await generateLatestManifest(channel);
-        manifestSpinner.succeed(chalk.green(`✓ Channel manifest regenerated for ${channel}`));
+        const manifest = await generateLatestManifest(channel);
+        manifestSpinner.succeed(chalk.green(manifest
+          ? `✓ Channel manifest regenerated for ${channel}`
+          : `✓ Channel manifest removed for ${channel} (no published versions remain)`));
       } catch (manifestError: any) {
+        regenerationError = manifestError.message;
         manifestSpinner.warn(chalk.yellow(`⚠ Channel manifest regeneration failed: ${manifestError.message}`));
       }
     }
+
+    emitResult({
+      version,
+      channel,
+      deletedBuilds: builds?.length || 0,
+      wasPublished: !!versionData.is_published,
+      regenerationError,
+    });
   } catch (error: any) {
     spinner.fail(chalk.red(`Failed to delete version: ${error.message}`));
+    emitError(error);
     process.exit(1);
   }
 }
 
-/**
- * Recursively list and remove all files under a storage folder prefix.
- */
-async function removeStorageFolder(bucket: string, prefix: string): Promise<void> {
-  const { data: items, error } = await supabase.storage
-    .from(bucket)
-    .list(prefix, { limit: 1000 });
+interface PromoteVersionOptions {
+  from?: string;
+  to?: string;
+  as?: string;
+  reference?: boolean;
+}
 
-  if (error) throw error;
-  if (!items || items.length === 0) return;
-
-  const filePaths: string[] = [];
-  const subfolders: string[] = [];
-
-  for (const item of items) {
-    if (item.id) {
-      // It's a file
-      filePaths.push(`${prefix}/${item.name}`);
-    } else {
-      // It's a virtual folder
-      subfolders.push(`${prefix}/${item.name}`);
+export async function promoteVersion(version: string, options: PromoteVersionOptions) {
+  const fromChannel = options.from || 'beta';
+  const toChannel = options.to || 'stable';
+  const targetVersion = options.as || version;
+
+  for (const ch of [fromChannel, toChannel]) {
+    if (!isSupportedChannel(ch)) {
+      console.error(chalk.red(`❌ Invalid channel: ${ch}`));
+      console.error(chalk.gray(`   Supported channels: ${SUPPORTED_CHANNELS.join(', ')}`));
+      emitError(new PublisherError('INVALID_ARGUMENT', `Invalid channel: ${ch}`));
+      process.exit(1);
     }
   }
 
-  if (filePaths.length > 0) {
-    const { error: removeError } = await supabase.storage.from(bucket).remove(filePaths);
-    if (removeError) throw removeError;
+  if (!semver.valid(version) || !semver.valid(targetVersion)) {
+    console.error(chalk.red(`❌ Invalid semantic version: ${semver.valid(version) ? targetVersion : version}`));
+    emitError(new PublisherError('INVALID_ARGUMENT', `Invalid semantic version: ${semver.valid(version) ? targetVersion : version}`));
+    process.exit(1);
   }
 
-  for (const subfolder of subfolders) {
-    await removeStorageFolder(bucket, subfolder);
+  if (fromChannel === toChannel && targetVersion === version) {
+    console.error(chalk.red('❌ Source and target are the same. Use a different --to channel or --as version.'));
+    emitError(new PublisherError('INVALID_ARGUMENT', 'Source and target are the same. Use a different --to channel or --as version.'));
+    process.exit(1);
+  }
+
+  const spinner = startSpinner(`Promoting ${version} (${fromChannel}) → ${targetVersion} (${toChannel})...`);
+  let createdVersionId: string | null = null;
+  const copiedPaths: string[] = [];
+
+  try {
+    const { data: source, error: sourceError } = await supabase
+      .schema('publisher')
+      .from('versions')
+      .select('*')
+      .eq('version_name', version)
+      .eq('release_channel', fromChannel)
+      .single();
+
+    if (sourceError || !source) {
+      throw new PublisherError('VERSION_NOT_FOUND', `Version ${version} (${fromChannel}) not found`);
+    }
+
+    const { data: existingTarget } = await supabase
+      .schema('publisher')
+      .from('versions')
+      .select('id')
+      .eq('version_name', targetVersion)
+      .eq('release_channel', toChannel)
+      .maybeSingle();
+
+    if (existingTarget) {
+      throw new PublisherError('VERSION_EXISTS', `Version ${targetVersion} (${toChannel}) already exists`);
+    }
+
+    const { data: builds, error: buildsError } = await supabase
+      .schema('publisher')
+      .from('builds')
+      .select('*')
+      .eq('version_id', source.id);
+
+    if (buildsError) throw buildsError;
+
+    // Carry the source policy over, re-targeted at the destination channel
+    const sourcePolicy = getUpdatePolicyFromVersion(source);
+    const targetPolicy = { ...sourcePolicy, channel: toChannel as 'stable' | 'beta' | 'alpha' };
+    const sourcePrefix = source.storage_key_prefix || `releases/${fromChannel}/${version}`;
+    const targetPrefix = `releases/${toChannel}/${targetVersion}`;
+    const promotedFrom = `${fromChannel}/${version}`;
+
+    spinner.text = `Creating ${targetVersion} (${toChannel})...`;
+
+    const { data: created, error: createError } = await supabase
+      .schema('publisher')
+      .from('versions')
+      .insert({
+        version_name: targetVersion,
+        release_channel: toChannel,
+        min_supported_version: targetPolicy.minSupportedVersion,
+        rollout_percentage: targetPolicy.rolloutPercentage,
+        rollout_start_at: targetPolicy.rolloutStartAt,
+        rollout_end_at: targetPolicy.rolloutEndAt,
+        storage_key_prefix: targetPrefix,
+        release_notes: source.release_notes,
+        changelog: source.changelog,
+        is_mandatory: source.is_mandatory || false,
+        is_published: false,
+        metadata: {
+          ...buildVersionMetadataWithPolicy(source.metadata, targetPolicy),
+          promotedFrom,
+        },
+      })
+      .select()
+      .single();
+
+    if (createError) throw createError;
+    createdVersionId = created.id;
+
+    let copied = 0;
+    let referenced = 0;
+
+    for (const build of builds || []) {
+      const platformMetadata = { ...(build.platform_metadata || {}), promoted_from: promotedFrom };
+      let url = build.url;
+
+      // Only objects stored under the source version's prefix move with it; external
+      // URLs and fallbacks already pointing at other versions are kept as-is.
+      const storagePath = build.url ? storagePathFromUrl(build.url) : null;
+      if (storagePath && storagePath.startsWith(`${sourcePrefix}/`) && !build.platform_metadata?.external) {
+        if (options.reference) {
+          platformMetadata.storage_ref = true;
+          referenced++;
+        } else {
+          const targetPath = `${targetPrefix}/${storagePath.slice(sourcePrefix.length + 1)}`;
+          spinner.text = `Copying ${storagePath}...`;
+          await getStorage().copy(storagePath, targetPath);
+          copiedPaths.push(targetPath);
+          url = buildCdnUrl(cdnUrl, targetPath);
+          copied++;
+        }
+      }
+
+      const { error: insertError } = await supabase
+        .schema('publisher')
+        .from('builds')
+        .insert({
+          version_id: created.id,
+          os: build.os,
+          arch: build.arch,
+          type: build.type,
+          distribution: build.distribution,
+          variant: build.variant,
+          package_name: build.package_name,
+          url,
+          size: build.size,
+          sha256_checksum: build.sha256_checksum,
+          sha512_checksum: build.sha512_checksum,
+          signature: build.signature,
+          platform_metadata: platformMetadata,
+        });
+
+      if (insertError) throw insertError;
+    }
+
+    spinner.succeed(chalk.green(`✓ Promoted ${version} (${fromChannel}) → ${targetVersion} (${toChannel})`));
+    console.log(chalk.gray(`  ID: ${created.id}`));
+    console.log(chalk.gray(`  Storage Prefix: ${targetPrefix}`));
+    console.log(chalk.gray(`  Builds: ${builds?.length || 0} (${copied} copied, ${referenced} referenced)`));
+    console.log(chalk.gray(`  Rollout: ${targetPolicy.rolloutPercentage}%`));
+    console.log(chalk.gray(`  Status: Unpublished`));
+    console.log(chalk.gray(`  Next: publisher publish ${targetVersion} --channel ${toChannel}`));
+    emitResult({
+      ...toVersionJson(created),
+      promotedFrom: { version, channel: fromChannel },
+      builds: builds?.length || 0,
+      copied,
+      referenced,
+    });
+  } catch (error: any) {
+    // Roll back partial promotion: builds cascade with the version row
+    if (createdVersionId) {
+      await supabase.schema('publisher').from('versions').delete().eq('id', createdVersionId);
+    }
+    if (copiedPaths.length > 0) {
+      await getStorage().remove(copiedPaths);
+    }
+    spinner.fail(chalk.red(`Failed to promote version: ${error.message}`));
+    emitError(error);
+    process.exit(1);
   }
 }
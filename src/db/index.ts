@@ -0,0 +1,20 @@
+import { join, resolve } from 'path';
+import { loadConfig } from '../utils/config.js';
+
+export const DATABASE_DRIVERS = ['supabase', 'local'] as const;
+export type DatabaseDriverName = typeof DATABASE_DRIVERS[number];
+
+// Offline mode keeps the database file and stored artifacts together in the project
+export const LOCAL_DATA_DIR = '.publisher';
+
+export function isDatabaseDriverName(value: string): value is DatabaseDriverName {
+  return DATABASE_DRIVERS.includes(value as DatabaseDriverName);
+}
+
+export function isLocalDatabase(): boolean {
+  return (process.env.DATABASE_DRIVER || loadConfig().DATABASE_DRIVER) === 'local';
+}
+
+export function localDatabaseFile(): string {
+  return resolve(process.env.DATABASE_LOCAL_FILE || loadConfig().DATABASE_LOCAL_FILE || join(LOCAL_DATA_DIR, 'db.json'));
+}
@@ -0,0 +1,369 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+// File-backed stand-in for the publisher schema. It speaks the subset of the PostgREST
+// query builder the commands use (select/insert/update/upsert/delete with eq/in/filter,
+// order, range/limit and single) and enforces the same defaults, unique keys and
+// cascades as the migrations, so commands run unchanged against it.
+
+type Row = Record<string, any>;
+type TableName = 'versions' | 'builds';
+
+interface LocalError {
+  code: string;
+  message: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface QueryResult {
+  data: any;
+  error: LocalError | null;
+  count?: number | null;
+}
+
+interface TableSchema {
+  defaults: () => Row;
+  unique: { name: string; columns: string[] };
+}
+
+const TABLES: Record<TableName, TableSchema> = {
+  versions: {
+    defaults: () => ({
+      manifest_version: 1,
+      release_date: new Date().toISOString(),
+      release_channel: 'stable',
+      is_published: false,
+      is_mandatory: false,
+      release_notes: null,
+      changelog: null,
+      min_supported_version: null,
+      rollout_percentage: 100,
+      rollout_start_at: null,
+      rollout_end_at: null,
+      storage_key_prefix: null,
+      metadata: {},
+    }),
+    unique: { name: 'versions_version_channel_unique', columns: ['version_name', 'release_channel'] },
+  },
+  builds: {
+    defaults: () => ({
+      distribution: 'direct',
+      variant: 'default',
+      package_name: null,
+      size: null,
+      sha256_checksum: null,
+      sha512_checksum: null,
+      signature: null,
+      platform_metadata: {},
+    }),
+    unique: { name: 'builds_version_os_arch_type_dist_variant_key', columns: ['version_id', 'os', 'arch', 'type', 'distribution', 'variant'] },
+  },
+};
+
+function dbError(code: string, message: string, details: string | null = null): LocalError {
+  return { code, message, details, hint: null };
+}
+
+let lastTimestamp = 0;
+
+// Strictly increasing so created_at ordering is deterministic within one run
+function timestamp(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Column reference, including the `json_column->>key` text accessor
+function columnValue(row: Row, column: string): any {
+  const [base, key] = column.split('->>');
+  if (key === undefined) return row[base];
+  const value = row[base]?.[key];
+  return value === undefined || value === null ? null : String(value);
+}
+
+function matches(cell: any, value: any): boolean {
+  if (cell === value) return true;
+  return cell !== null && cell !== undefined && value !== null && String(cell) === String(value);
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return clone(row);
+  const out: Row = {};
+  for (const column of columns.split(',').map(c => c.trim()).filter(Boolean)) {
+    out[column] = clone(row[column] ?? null);
+  }
+  return out;
+}
+
+export class LocalDatabase {
+  constructor(private readonly file: string) {}
+
+  from(table: string): LocalQuery {
+    if (!(table in TABLES)) {
+      throw new Error(`Unknown table in local database: ${table}`);
+    }
+    return new LocalQuery(this, table as TableName);
+  }
+
+  read(): Record<TableName, Row[]> {
+    if (!existsSync(this.file)) {
+      return { versions: [], builds: [] };
+    }
+    const data = JSON.parse(readFileSync(this.file, 'utf-8'));
+    return { versions: data.versions || [], builds: data.builds || [] };
+  }
+
+  write(data: Record<TableName, Row[]>) {
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    renameSync(tmp, this.file);
+  }
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export class LocalQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select';
+  private columns = '*';
+  private returning: string | null = null;
+  private countRows = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private offset = 0;
+  private max: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private conflictColumns: string[] = [];
+
+  constructor(private readonly db: LocalDatabase, private readonly table: TableName) {}
+
+  select(columns = '*', options: { count?: 'exact' } = {}): this {
+    if (this.operation === 'select') {
+      this.columns = columns;
+      this.countRows = options.count === 'exact';
+    } else {
+      this.returning = columns;
+    }
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.operation = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(c => c.trim());
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    this.filters.push(row => matches(columnValue(row, column), value));
+    return this;
+  }
+
+  in(column: string, values: any[]): this {
+    this.filters.push(row => values.some(value => matches(columnValue(row, column), value)));
+    return this;
+  }
+
+  filter(column: string, operator: string, value: any): this {
+    if (operator !== 'eq') {
+      throw new Error(`Unsupported filter operator in local database: ${operator}`);
+    }
+    return this.eq(column, value);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.max = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.max = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = QueryResult, T2 = never>(
+    onfulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const data = this.db.read();
+    const rows = data[this.table];
+    const selected = () => rows.filter(row => this.filters.every(f => f(row)));
+
+    let result: Row[];
+    let count: number | null = null;
+
+    switch (this.operation) {
+      case 'select': {
+        result = this.sort(selected());
+        count = this.countRows ? result.length : null;
+        result = result.slice(this.offset, this.max === null ? undefined : this.offset + this.max);
+        result = result.map(row => project(row, this.columns));
+        return this.shape(result, count);
+      }
+      case 'insert': {
+        const inserted: Row[] = [];
+        for (const input of this.payload) {
+          const now = timestamp();
+          const row = { ...TABLES[this.table].defaults(), id: randomUUID(), created_at: now, updated_at: now, ...clone(input) };
+          const error = this.checkConstraints(data, row, rows);
+          if (error) return { data: null, error };
+          rows.push(row);
+          inserted.push(row);
+        }
+        result = inserted;
+        break;
+      }
+      case 'update': {
+        result = selected();
+        for (const row of result) {
+          const next = { ...row, ...clone(this.patch), updated_at: timestamp() };
+          const error = this.checkConstraints(data, next, rows.filter(r => r !== row));
+          if (error) return { data: null, error };
+          Object.assign(row, next);
+        }
+        break;
+      }
+      case 'upsert': {
+        result = [];
+        for (const input of this.payload) {
+          const existing = rows.find(row => this.conflictColumns.every(c => matches(row[c], input[c] ?? TABLES[this.table].defaults()[c])));
+          if (existing) {
+            Object.assign(existing, clone(input), { updated_at: timestamp() });
+            result.push(existing);
+          } else {
+            const now = timestamp();
+            const row = { ...TABLES[this.table].defaults(), id: randomUUID(), created_at: now, updated_at: now, ...clone(input) };
+            const error = this.checkConstraints(data, row, rows);
+            if (error) return { data: null, error };
+            rows.push(row);
+            result.push(row);
+          }
+        }
+        break;
+      }
+      case 'delete': {
+        result = selected();
+        const removed = new Set(result);
+        data[this.table] = rows.filter(row => !removed.has(row));
+        // builds.version_id references versions(id) on delete cascade
+        if (this.table === 'versions') {
+          const ids = new Set(result.map(row => row.id));
+          data.builds = data.builds.filter(build => !ids.has(build.version_id));
+        }
+        break;
+      }
+    }
+
+    this.db.write(data);
+
+    if (this.returning === null) {
+      return { data: null, error: null };
+    }
+    return this.shape(result.map(row => project(row, this.returning as string)), null);
+  }
+
+  private checkConstraints(data: Record<TableName, Row[]>, row: Row, others: Row[]): LocalError | null {
+    const { name, columns } = TABLES[this.table].unique;
+    if (others.some(other => other.id !== row.id && columns.every(c => matches(other[c], row[c])))) {
+      return dbError('23505', `duplicate key value violates unique constraint "${name}"`,
+        `Key (${columns.join(', ')})=(${columns.map(c => row[c]).join(', ')}) already exists.`);
+    }
+    if (this.table === 'builds' && !data.versions.some(version => version.id === row.version_id)) {
+      return dbError('23503', 'insert or update on table "builds" violates foreign key constraint "builds_version_id_fkey"',
+        `Key (version_id)=(${row.version_id}) is not present in table "versions".`);
+    }
+    return null;
+  }
+
+  private sort(rows: Row[]): Row[] {
+    if (this.orders.length === 0) return [...rows];
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compare(columnValue(a, column), columnValue(b, column));
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+
+  private shape(rows: Row[], count: number | null): QueryResult {
+    if (this.singleMode === null) {
+      return { data: rows, error: null, count };
+    }
+    if (rows.length === 1) {
+      return { data: rows[0], error: null, count };
+    }
+    if (rows.length === 0 && this.singleMode === 'maybeSingle') {
+      return { data: null, error: null, count };
+    }
+    return {
+      data: null,
+      error: dbError('PGRST116', 'JSON object requested, multiple (or no) rows returned', `The result contains ${rows.length} rows`),
+      count,
+    };
+  }
+}
+
+/**
+ * Client with the shape commands expect from Supabase (`client.schema('publisher').from(...)`).
+ */
+export function createLocalClient(file: string) {
+  const db = new LocalDatabase(file);
+  return {
+    schema: (_schema: string) => db,
+    from: (table: string) => db.from(table),
+  };
+}
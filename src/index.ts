@@ -1,68 +1,101 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import { config } from 'dotenv';
-import { createClient } from '@supabase/supabase-js';
-import { createVersion, updateVersion, listVersions, setVersionPolicy, deleteVersion } from './commands/version.js';
-import { uploadBuild, listBuilds, createBuild, deleteBuild } from './commands/build.js';
-import { publishVersion, generateManifest } from './commands/publish.js';
-import { setConfig, getConfig, deleteConfig, resetConfig } from './commands/config.js';
+import { createVersion, updateVersion, listVersions, setVersionPolicy, deleteVersion, promoteVersion } from './commands/version.js';
+import { uploadBuild, uploadBuildDirectory, listBuilds, createBuild, deleteBuild, verifyBuilds } from './commands/build.js';
+import { publishVersion, unpublishVersion, generateManifest } from './commands/publish.js';
+import { setConfig, getConfig, deleteConfig, resetConfig, configProfiles, configRekey, configPlatforms, configFormats } from './commands/config.js';
 import { checkForUpdate } from './commands/update.js';
-import { loadConfig } from './utils/config.js';
+import { serveUpdates } from './commands/serve.js';
+import { dbMigrate, dbStatus } from './commands/db.js';
+import { runDoctor } from './commands/doctor.js';
+import { tokenInspect, tokenMint } from './commands/token.js';
+import { verifyManifest } from './commands/manifest.js';
+import { reinitSupabase } from './client.js';
 import { version as pkgVersion } from '../package.json';
 import { startRepl } from './repl.js';
 import { renderBanner } from './ui/banner.js';
 import { theme } from './ui/theme.js';
 import { ui } from './ui/log.js';
+import { emitError, finishJsonCommand, setJsonMode } from './ui/output.js';
+import { PublisherError } from './utils/errors.js';
+import { getProjectConfig } from './utils/project.js';
+import { DEFAULT_PROFILE, getActiveProfile, isConfigLocked, isValidProfileName, profileExists, setActiveProfile } from './utils/config.js';
 
 // Load environment variables from .env file (if exists)
 config();
 
-export let supabase: any = null;
-export let cdnUrl: string = '';
+export { supabase, cdnUrl, reinitSupabase } from './client.js';
 
-export function reinitSupabase(): boolean {
-  const cfg = loadConfig();
-  const url = process.env.SUPABASE_URL || cfg.SUPABASE_URL;
-  const anon = process.env.SUPABASE_ANON_KEY || cfg.SUPABASE_ANON_KEY;
-  const key = process.env.APP_PUBLISHER_KEY || cfg.APP_PUBLISHER_KEY;
+// Global flags may come before the command name: --json and --profile <name>
+const cliArgs = process.argv.slice(2);
+const jsonRequested = cliArgs.includes('--json');
+const profileIndex = cliArgs.findIndex(arg => arg === '--profile' || arg.startsWith('--profile='));
+const profileInline = profileIndex !== -1 && cliArgs[profileIndex].startsWith('--profile=');
+const profileRequested = profileIndex === -1
+  ? undefined
+  : profileInline ? cliArgs[profileIndex].slice('--profile='.length) : cliArgs[profileIndex + 1];
+const profileArgs = profileIndex === -1 ? [] : profileInline ? [profileIndex] : [profileIndex, profileIndex + 1];
+const firstArg = cliArgs.find((arg, i) => arg !== '--json' && !profileArgs.includes(i));
 
-  if (!url || !anon || !key) {
-    supabase = null;
-    cdnUrl = '';
-    return false;
-  }
-
-  const resolved = url.replace(/\/$/, '');
-  const defaultCdn = `${resolved}/storage/v1/object/public/`;
-  cdnUrl = process.env.CDN_URL || cfg.CDN_URL || defaultCdn;
-
-  supabase = createClient(url, anon, {
-    db: { schema: 'publisher' },
-    global: {
-      headers: {
-        Authorization: `Bearer ${key}`,
-      },
-    },
-  });
-  return true;
+// The profile has to be active before the client is built from config
+if (profileRequested) {
+  setActiveProfile(profileRequested);
 }
 
 let hasCredentials = reinitSupabase();
 
-// Skip validation for config commands, interactive launch, and help/version flags
-const firstArg = process.argv[2];
+// Skip validation for config commands, interactive launch, and help/version flags.
 const isConfigCommand = firstArg?.startsWith('config');
+// doctor reports missing credentials itself
+const isDoctorCommand = firstArg === 'doctor';
+// Verification only needs the public key, so clients can run it without credentials;
+// db commands talk to Postgres directly through DATABASE_URL, token commands only need the JWT
+const isOfflineCommand = firstArg === 'manifest:verify' || !!firstArg?.startsWith('db:') || !!firstArg?.startsWith('token:');
 const isInteractiveLaunch = !firstArg || firstArg === 'chat' || firstArg === 'interactive';
 const isHelpOrVersion = firstArg === '--help' || firstArg === '-h' ||
                         firstArg === 'help' ||
                         firstArg === '--version' || firstArg === '-V';
 
-if (!isConfigCommand && !isInteractiveLaunch && !isHelpOrVersion && !hasCredentials) {
-  ui.error('Missing required credentials.');
+// config:set creates a profile; everything else needs it to exist
+const activeProfile = getActiveProfile();
+const profileProblem = !isValidProfileName(activeProfile)
+  ? `Invalid profile name: ${activeProfile} (use letters, digits, "-" and "_")`
+  : !isConfigCommand && !profileExists(activeProfile) ? `Unknown profile: ${activeProfile}` : null;
+if (profileProblem) {
+  if (jsonRequested) {
+    setJsonMode(true, firstArg);
+    emitError(new PublisherError('INVALID_ARGUMENT', profileProblem, { profile: activeProfile }));
+    process.exit(1);
+  }
+  ui.error(profileProblem);
+  ui.hint('List profiles with: publisher config:profiles');
+  ui.hint(`Create one with:   publisher config:set --profile ${activeProfile} SUPABASE_URL "https://..."`);
+  process.exit(1);
+}
+
+if (!isConfigCommand && !isDoctorCommand && !isOfflineCommand && !isInteractiveLaunch && !isHelpOrVersion && !hasCredentials) {
+  // Encrypted secrets are dropped while locked, so the credentials only look missing
+  if (isConfigLocked()) {
+    if (jsonRequested) {
+      setJsonMode(true, firstArg);
+      emitError(new PublisherError('CONFIG_LOCKED', 'The config file is encrypted. Set PUBLISHER_PASSPHRASE to unlock it'));
+      process.exit(1);
+    }
+    ui.error('The config file is encrypted.');
+    ui.hint('Set PUBLISHER_PASSPHRASE, or run publisher chat to unlock it for the session');
+    process.exit(1);
+  }
+  if (jsonRequested) {
+    setJsonMode(true, firstArg);
+    emitError(new PublisherError('MISSING_CREDENTIALS', 'Missing required credentials. Set SUPABASE_URL, SUPABASE_ANON_KEY and APP_PUBLISHER_KEY'));
+    process.exit(1);
+  }
+  ui.error(activeProfile === DEFAULT_PROFILE ? 'Missing required credentials.' : `Missing required credentials in profile ${activeProfile}.`);
   console.log('');
   ui.heading('Configure using one of these methods:');
   ui.hint('1. Run interactive setup:  publisher chat');
-  ui.hint('2. Set via CLI:           publisher config:set SUPABASE_URL "https://..."');
+  ui.hint(`2. Set via CLI:           publisher config:set ${activeProfile === DEFAULT_PROFILE ? '' : `--profile ${activeProfile} `}SUPABASE_URL "https://..."`);
   ui.hint('3. Environment variables:  export SUPABASE_URL="https://..."');
   ui.hint('4. .env file with the same keys');
   process.exit(1);
@@ -73,7 +106,41 @@ const program = new Command();
 program
   .name('publisher')
   .description(`${theme.brandBold('Publisher CLI')} ${theme.muted('— versions, builds, channels, and update manifests.')}`)
-  .version(pkgVersion);
+  .version(pkgVersion)
+  .option('--json', 'Print a single JSON document (result or error with a stable code) instead of human output', false)
+  .option('--profile <name>', 'Configuration profile to use (default: PUBLISHER_PROFILE or "default")');
+
+program.hook('preAction', (_root, actionCommand) => {
+  setJsonMode(!!program.opts().json, actionCommand.name());
+  applyProjectDefaults(actionCommand);
+  // In the REPL a line may pick another profile; runCommand restores the session's afterwards
+  const profile = program.opts().profile;
+  if (profile && profile !== getActiveProfile()) {
+    setActiveProfile(profile);
+    hasCredentials = reinitSupabase();
+  }
+});
+
+/**
+ * The project file's channel replaces the built-in --channel default; an explicit flag still wins.
+ */
+function applyProjectDefaults(actionCommand: Command) {
+  if (actionCommand.getOptionValueSource('channel') !== 'default') return;
+  try {
+    const { channel } = getProjectConfig();
+    if (channel) {
+      actionCommand.setOptionValueWithSource('channel', channel, 'config');
+    }
+  } catch (error: any) {
+    ui.error(error.message);
+    emitError(error);
+    process.exit(1);
+  }
+}
+
+program.hook('postAction', () => {
+  finishJsonCommand();
+});
 
 program.addHelpText('beforeAll', `\n${renderBanner(pkgVersion)}\n`);
 program.addHelpText('after', `\n${theme.muted('Run')} ${theme.accent('publisher chat')} ${theme.muted('to enter interactive mode.')}\n`);
@@ -111,10 +178,32 @@ program
 
 program
   .command('config:reset')
-  .description('Clear all configuration')
+  .description('Clear the active profile (the default profile keeps named profiles)')
   .action(resetConfig);
 
-function collectMeta(value: string, previous: string[]): string[] {
+program
+  .command('config:profiles')
+  .description('List configuration profiles and show which one is active')
+  .action(configProfiles);
+
+program
+  .command('config:rekey')
+  .description('Encrypt config secrets with a new passphrase (or set the first one)')
+  .action(configRekey);
+
+program
+  .command('config:platforms [channel] [specs...]')
+  .description('Show or set the required platform matrix for a channel ("*" for all channels)')
+  .option('--clear', 'Remove the configured matrix for the channel', false)
+  .action(configPlatforms);
+
+program
+  .command('config:formats [channel] [formats...]')
+  .description('Show or set the manifest formats written for a channel (xml, json, appcast, electron, tauri; xml is always written)')
+  .option('--clear', 'Remove the configured formats for the channel', false)
+  .action(configFormats);
+
+function collectRepeatable(value: string, previous: string[]): string[] {
   return [...(previous || []), value];
 }
 
@@ -169,6 +258,15 @@ program
   .option('--force', 'Delete even if published or referenced as fallback by other versions', false)
   .action(deleteVersion);
 
+program
+  .command('version:promote <version>')
+  .description('Clone a version and its builds into another channel without re-uploading')
+  .option('--from <channel>', 'Source release channel (stable, beta, alpha)', 'beta')
+  .option('--to <channel>', 'Target release channel (stable, beta, alpha)', 'stable')
+  .option('--as <version>', 'Version name in the target channel (default: same as source)')
+  .option('--reference', 'Reference the source storage objects instead of copying them', false)
+  .action(promoteVersion);
+
 // Build commands
 program
   .command('build:upload <version> <file>')
@@ -179,9 +277,24 @@ program
   .option('-o, --os <os>', 'Operating system (macos, windows, linux, ios, android)')
   .option('-a, --arch <arch>', 'Architecture (arm64, x64, x86)')
   .option('-t, --type <type>', 'Build type (patch, installer)')
-  .option('--meta <keyValue>', 'Custom metadata as key=value (repeatable, e.g. --meta minOsVersion=12.0)', collectMeta, [] as string[])
+  .option('--meta <keyValue>', 'Custom metadata as key=value (repeatable, e.g. --meta minOsVersion=12.0)', collectRepeatable, [] as string[])
+  .option('--signature <signature>', 'Updater signature produced at build time (e.g. Tauri)')
+  .option('--signature-file <path>', 'Read the updater signature from a file (e.g. a Tauri .sig file)')
   .action(uploadBuild);
 
+program
+  .command('build:upload-dir <version> <dir>')
+  .description('Upload every build file in a directory, reading os/arch/type from the filenames')
+  .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
+  .option('--distribution <distribution>', 'Build distribution source (direct, store)', 'direct')
+  .option('--variant <variant>', 'Build variant label, e.g. opengl, d3d11 (default: "default")', 'default')
+  .option('--meta <keyValue>', 'Custom metadata as key=value for every build (repeatable)', collectRepeatable, [] as string[])
+  .option('--pattern <glob>', 'Files to consider, relative to the directory', '**/*')
+  .option('--concurrency <n>', 'Uploads in flight at once (1-16)', '3')
+  .option('--strict', 'Fail before uploading when any file does not resolve to a platform', false)
+  .option('--dry-run', 'Show the upload plan without uploading', false)
+  .action(uploadBuildDirectory);
+
 program
   .command('build:create <version> <os> <arch> <type> <url>')
   .description('Create a build record with external URL (e.g., App Store, TestFlight)')
@@ -192,7 +305,9 @@ program
   .option('--sha256 <hash>', 'SHA256 checksum')
   .option('--sha512 <hash>', 'SHA512 checksum')
   .option('-p, --package-name <name>', 'Package name')
-  .option('--meta <keyValue>', 'Custom metadata as key=value (repeatable, e.g. --meta minOsVersion=12.0)', collectMeta, [] as string[])
+  .option('--meta <keyValue>', 'Custom metadata as key=value (repeatable, e.g. --meta minOsVersion=12.0)', collectRepeatable, [] as string[])
+  .option('--signature <signature>', 'Updater signature produced at build time (e.g. Tauri)')
+  .option('--signature-file <path>', 'Read the updater signature from a file (e.g. a Tauri .sig file)')
   .action(createBuild);
 
 program
@@ -210,19 +325,47 @@ program
   .option('-y, --yes', 'Skip confirmation prompt', false)
   .action(deleteBuild);
 
+program
+  .command('build:verify [version]')
+  .description('Download every build URL and compare its size and checksums with the build record')
+  .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
+  .option('--all', 'Verify the builds of every version in the channel', false)
+  .option('--fill-missing', 'Record size and checksums for builds that have none (e.g. from build:create)', false)
+  .action(verifyBuilds);
+
 // Publish commands
 program
   .command('publish <version>')
   .description('Publish a version and generate manifests')
   .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
   .option('-y, --yes', 'Skip publish confirmation prompt', false)
+  .option('--fallback <strategy>', 'Resolve missing builds without prompting: latest, none, fail, or from:<version>')
+  .option('--report <file>', 'Write the fallback report (JSON) to a file')
+  .option('--dry-run', 'Resolve fallbacks and preview both manifests and the channel manifest diff without writing anything', false)
+  .option('--require <spec>', 'Required platform os/arch/type[/variant[/distribution]] for this run (repeatable; +spec adds, -spec removes, none clears)', collectRepeatable, [] as string[])
   .action(publishVersion);
 
+program
+  .command('unpublish <version>')
+  .description('Unpublish a version and roll the channel manifest back to the previous published version')
+  .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
+  .option('-y, --yes', 'Skip unpublish confirmation prompt', false)
+  .action(unpublishVersion);
+
 program
   .command('manifest:generate <version>')
   .description('Generate manifest file for a version')
   .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
-  .action(generateManifest);
+  .action(async (version, options) => {
+    await generateManifest(version, options);
+  });
+
+program
+  .command('manifest:verify <source>')
+  .description('Verify the Ed25519 signature of a manifest.xml file or URL')
+  .option('--public-key <key>', 'Ed25519 public key (PEM, base64, or path to a PEM file); defaults to MANIFEST_PUBLIC_KEY')
+  .option('--signature <source>', 'Detached signature file or URL (default: <source>.sig)')
+  .action(verifyManifest);
 
 program
   .command('update:check <installedVersion> <os> <arch>')
@@ -230,8 +373,54 @@ program
   .option('--channel <channel>', 'Release channel (stable, beta, alpha)', 'stable')
   .option('--device-id <deviceId>', 'Stable device identifier for rollout bucketing')
   .option('--allow-prerelease', 'Allow pre-release target versions', false)
+  .option('--variant <variant>', 'Build variant the client runs (falls back to default)')
+  .option('--distribution <distribution>', 'Only consider builds of this distribution (direct, store)')
   .action(checkForUpdate);
 
+program
+  .command('serve')
+  .description('Serve update decisions and channel manifests over HTTP')
+  .option('--port <port>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Interface to bind (use 0.0.0.0 to reach it from other devices)', '127.0.0.1')
+  .action(serveUpdates);
+
+program
+  .command('doctor')
+  .description('Check credentials, database schema, storage and CDN_URL, with hints for anything misconfigured')
+  .action(runDoctor);
+
+// Token commands
+program
+  .command('token:inspect [token]')
+  .description('Decode APP_PUBLISHER_KEY (or the given token): role, issuer and expiry')
+  .option('--secret <secret>', 'Supabase JWT secret to verify the signature (default: SUPABASE_JWT_SECRET)')
+  .option('--warn-days <days>', 'Warn when the token expires within this many days', '14')
+  .action(tokenInspect);
+
+program
+  .command('token:mint')
+  .description('Issue a short-lived publisher token for CI (printed alone on stdout)')
+  .option('--role <role>', 'Role claim', 'app_publisher')
+  .option('--ttl <duration>', 'Lifetime, e.g. 15m, 1h, 7d', '1h')
+  .option('--secret <secret>', 'Supabase JWT secret (default: SUPABASE_JWT_SECRET)')
+  .action(tokenMint);
+
+// Database commands
+program
+  .command('db:migrate')
+  .description('Apply pending migration/*.sql files to the database, each in its own transaction')
+  .option('--database-url <url>', 'Postgres connection string (default: DATABASE_URL)')
+  .option('--dir <path>', 'Directory with the NNNN_name.sql files (default: the bundled migration/ directory)')
+  .option('--seed', 'Also load the 9xxx seed scenarios (re-run every time)', false)
+  .action(dbMigrate);
+
+program
+  .command('db:status')
+  .description('Show applied and pending migrations')
+  .option('--database-url <url>', 'Postgres connection string (default: DATABASE_URL)')
+  .option('--dir <path>', 'Directory with the NNNN_name.sql files (default: the bundled migration/ directory)')
+  .action(dbStatus);
+
 if (!firstArg) {
   if (process.stdin.isTTY) {
     startRepl(program, pkgVersion, {
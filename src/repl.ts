@@ -5,7 +5,10 @@ import { theme, icon } from './ui/theme.js';
 import { panel } from './ui/box.js';
 import { renderBanner, renderWelcome } from './ui/banner.js';
 import { ui } from './ui/log.js';
-import { runSetupWizard } from './setup.js';
+import { runSetupWizard, runUnlockPrompt } from './setup.js';
+import { setJsonMode } from './ui/output.js';
+import { DEFAULT_PROFILE, getActiveProfile, isConfigLocked, listProfiles, setActiveProfile } from './utils/config.js';
+import { getProjectConfig } from './utils/project.js';
 
 interface ReplState {
   channel: string;
@@ -13,16 +16,21 @@ interface ReplState {
   reinitSupabase?: () => boolean;
 }
 
-const SLASH_COMMANDS = ['/help', '/channel', '/version', '/clear', '/setup', '/config', '/exit', '/quit'];
+const SLASH_COMMANDS = ['/help', '/channel', '/version', '/profile', '/clear', '/setup', '/config', '/exit', '/quit'];
 const CHANNELS = ['stable', 'beta', 'alpha'];
 
 const COMMAND_GROUPS: Record<string, string[]> = {
-  version: ['create', 'list', 'policy', 'delete'],
-  build: ['upload', 'create', 'list', 'delete'],
+  version: ['create', 'list', 'policy', 'promote', 'delete'],
+  build: ['upload', 'upload-dir', 'create', 'list', 'delete', 'verify'],
   publish: [],
-  manifest: ['generate'],
+  unpublish: [],
+  manifest: ['generate', 'verify'],
   update: ['check'],
-  config: ['set', 'get', 'delete', 'reset'],
+  serve: [],
+  db: ['migrate', 'status'],
+  doctor: [],
+  token: ['inspect', 'mint'],
+  config: ['set', 'get', 'delete', 'reset', 'rekey', 'platforms', 'formats'],
 };
 
 // Capture once at module load so close handlers always have the real exit
@@ -76,16 +84,19 @@ function tokenize(input: string): string[] {
   return tokens;
 }
 
-function injectChannel(args: string[], channel: string): string[] {
+function injectChannel(program: Command, args: string[], channel: string): string[] {
   if (args.includes('--channel')) return args;
+  // Only commands that declare --channel accept it (e.g. config:* and version:promote don't)
+  const cmd = program.commands.find(c => c.name() === args[0]);
+  if (!cmd || !cmd.options.some(o => o.long === '--channel')) return args;
   return [...args, '--channel', channel];
 }
 
 function injectVersion(args: string[], command: string, version: string): string[] {
   const cmdsWithVersionArg = [
-    'version:create', 'version:policy', 'version:delete',
+    'version:create', 'version:policy', 'version:promote', 'version:delete',
     'build:upload', 'build:create', 'build:list', 'build:delete',
-    'publish', 'manifest:generate',
+    'publish', 'unpublish', 'manifest:generate',
   ];
   if (!cmdsWithVersionArg.includes(command)) return args;
   // Skip injection if the user already passed a semver as the first positional
@@ -113,14 +124,19 @@ function resolveSlashCommand(tokens: string[]): string[] {
   return tokens;
 }
 
-async function runCommand(program: Command, argv: string[]): Promise<void> {
+async function runCommand(program: Command, argv: string[], state: ReplState): Promise<void> {
   const originalExit = process.exit;
   (process as any).exit = (code?: number) => {
     throw new ReplExitError(code ?? 0);
   };
+  // Commander keeps option values between parses; --json and --profile apply to one line only
+  program.setOptionValue('json', undefined);
+  program.setOptionValue('profile', undefined);
+  const sessionProfile = getActiveProfile();
   try {
     await program.parseAsync(argv, { from: 'user' });
   } catch (err: any) {
+    setJsonMode(false);
     if (err instanceof ReplExitError) {
       if (err.code !== 0) {
         ui.hint(`exit code ${err.code}`);
@@ -133,7 +149,22 @@ async function runCommand(program: Command, argv: string[]): Promise<void> {
     }
     ui.error(err?.message ?? String(err));
   } finally {
+    setJsonMode(false);
     (process as any).exit = originalExit;
+    if (getActiveProfile() !== sessionProfile) {
+      setActiveProfile(sessionProfile);
+      state.reinitSupabase?.();
+    }
+  }
+}
+
+// The project file's default channel seeds the channel context
+function projectChannel(): string | undefined {
+  try {
+    return getProjectConfig().channel;
+  } catch (error: any) {
+    ui.warn(error.message);
+    return undefined;
   }
 }
 
@@ -144,6 +175,7 @@ function printHelp(state: ReplState) {
     [`/channel <name>`, `Set channel context (currently: ${state.channel})`],
     [`/version <ver>`, `Set version context (currently: ${versionCtx})`],
     [`/version clear`, 'Clear version context'],
+    [`/profile <name>`, `Switch configuration profile (currently: ${getActiveProfile()})`],
     [`/setup`, 'Configure Supabase credentials interactively'],
     [`/clear`, 'Clear the screen'],
     [`/exit`, 'Exit interactive mode'],
@@ -152,15 +184,28 @@ function printHelp(state: ReplState) {
     ['/version create <ver>', 'Create a new version'],
     ['/version list', 'List versions'],
     ['/version policy <ver>', 'Update release policy'],
+    ['/version promote <ver> --from <ch> --to <ch>', 'Promote a version to another channel'],
     ['/version delete <ver>', 'Delete a version and its builds'],
     ['/build upload <ver> <file>', 'Upload a build artifact'],
+    ['/build upload-dir <ver> <dir>', 'Upload every build file in a directory'],
     ['/build create <ver> <os> <arch> <type> <url>', 'Register an external build'],
     ['/build list <ver>', 'List builds for a version'],
     ['/build delete <ver> <os> <arch> <type>', 'Delete a build'],
+    ['/build verify <ver> [--fill-missing]', 'Check that build URLs serve the recorded bytes'],
     ['/publish <ver>', 'Publish a version and generate manifests'],
+    ['/unpublish <ver>', 'Unpublish a version and roll back the channel manifest'],
     ['/manifest generate <ver>', 'Regenerate the version manifest'],
+    ['/manifest verify <file|url>', 'Verify a signed manifest.xml'],
     ['/update check <installed> <os> <arch>', 'Check if an update is available'],
+    ['/serve --port <port>', 'Serve update decisions and manifests over HTTP'],
+    ['/doctor', 'Check credentials, schema, storage and CDN'],
+    ['/token inspect [token]', 'Show role and expiry of the publisher key'],
+    ['/token mint --ttl <duration>', 'Issue a short-lived token for CI'],
+    ['/db status', 'Show applied and pending migrations'],
+    ['/db migrate [--seed]', 'Apply pending migrations (and seed scenarios)'],
     ['/config get | set | delete | reset', 'Manage CLI config'],
+    ['/config platforms [channel] [specs...]', 'Show or set required platforms'],
+    ['/config formats [channel] [formats...]', 'Show or set manifest formats'],
   ];
 
   const fmtTable = (rows: string[][]) => {
@@ -184,7 +229,8 @@ function printHelp(state: ReplState) {
 }
 
 function buildPrompt(state: ReplState): string {
-  const parts = [state.channel];
+  const profile = getActiveProfile();
+  const parts = profile === DEFAULT_PROFILE ? [state.channel] : [profile, state.channel];
   if (state.version) parts.push(state.version);
   return `${theme.brand(icon.prompt)} ${theme.dim('[' + parts.join(':') + ']')} `;
 }
@@ -244,6 +290,27 @@ function handleSlash(line: string, state: ReplState): { handled: boolean; exit?:
       ui.success(`Channel context set to ${theme.accent(next)}`);
       return { handled: true };
     }
+    case 'profile': {
+      const next = rest[0];
+      const profiles = listProfiles();
+      if (!next) {
+        ui.info(`Current profile: ${theme.accent(getActiveProfile())}`);
+        ui.hint(`Available: ${profiles.join(', ')}`);
+        ui.hint('Usage: /profile <name>');
+        return { handled: true };
+      }
+      if (!profiles.includes(next)) {
+        ui.error(`Unknown profile: ${next}`);
+        ui.hint(`Available: ${profiles.join(', ')}. Create one with config:set --profile ${next} <key> <value>`);
+        return { handled: true };
+      }
+      setActiveProfile(next);
+      ui.success(`Profile set to ${theme.accent(next)}`);
+      if (state.reinitSupabase && !state.reinitSupabase()) {
+        ui.warn('This profile is missing credentials. Run /setup to add them.');
+      }
+      return { handled: true };
+    }
     case 'version': {
       const next = rest[0];
       if (!next) {
@@ -294,6 +361,10 @@ function getSuggestions(line: string, program: Command): string[] {
       const partial = line.slice('/channel '.length);
       return CHANNELS.filter(c => c.startsWith(partial)).map(c => '/channel ' + c);
     }
+    if (line.startsWith('/profile ')) {
+      const partial = line.slice('/profile '.length);
+      return listProfiles().filter(p => p.startsWith(partial)).map(p => '/profile ' + p);
+    }
     // Suggest subcommands for groups: /build → /build list, /build upload, etc.
     for (const [group, subs] of Object.entries(COMMAND_GROUPS)) {
       const prefix = `/${group} `;
@@ -423,14 +494,22 @@ export async function startRepl(
   version: string,
   opts: { reinitSupabase?: () => boolean; needsSetup?: boolean } = {}
 ): Promise<void> {
-  const state: ReplState = { channel: 'stable', version: null, reinitSupabase: opts.reinitSupabase };
+  const state: ReplState = { channel: projectChannel() || 'stable', version: null, reinitSupabase: opts.reinitSupabase };
 
   console.log(renderBanner(version));
   console.log('');
   console.log(renderWelcome(version, state.channel));
   console.log('');
 
-  if (opts.needsSetup) {
+  let needsSetup = opts.needsSetup;
+  if (isConfigLocked() && process.stdin.isTTY) {
+    if (await runUnlockPrompt() && opts.reinitSupabase) {
+      needsSetup = !opts.reinitSupabase();
+    }
+    console.log('');
+  }
+
+  if (needsSetup) {
     ui.warn('No credentials configured yet — let\'s set them up.');
     ui.hint('You can re-run this anytime with /setup.');
     console.log('');
@@ -521,10 +600,10 @@ export async function startRepl(
 
     // Inject version context if set and command expects a version argument
     let argv = state.version ? injectVersion(resolved, resolved[0], state.version) : resolved;
-    argv = injectChannel(argv, state.channel);
+    argv = injectChannel(program, argv, state.channel);
 
     try {
-      await runCommand(program, argv);
+      await runCommand(program, argv, state);
     } catch (err: any) {
       ui.error(err?.message ?? String(err));
     }
@@ -0,0 +1,111 @@
+import { cdnUrl as activeCdnUrl, supabase as activeClient, useClient } from './client.js';
+import { createVersionRecord, CreateVersionOptions, toVersionJson } from './commands/version.js';
+import { uploadBuildFile, UploadBuildOptions, UploadedBuild } from './commands/build.js';
+import { generateManifest, GeneratedManifest, publishRelease, PublishReleaseOptions, PublishResult } from './commands/publish.js';
+import { CheckUpdateOptions, evaluateUpdate, UpdateDecision } from './commands/update.js';
+import { Config, useConfig } from './utils/config.js';
+import { StorageDriver, useStorage } from './storage/index.js';
+import { ProjectConfig, useProjectConfig } from './utils/project.js';
+
+export { PublisherError } from './utils/errors.js';
+export type { ErrorCode, ErrorObject } from './utils/errors.js';
+export type { Config } from './utils/config.js';
+export type { ProjectConfig } from './utils/project.js';
+export { createLocalClient } from './db/local.js';
+export { LocalStorageDriver } from './storage/local.js';
+export { S3StorageDriver } from './storage/s3.js';
+export type { S3Options } from './storage/s3.js';
+export type { StorageDriver } from './storage/index.js';
+export type {
+  CheckUpdateOptions,
+  CreateVersionOptions,
+  GeneratedManifest,
+  PublishReleaseOptions,
+  PublishResult,
+  UpdateDecision,
+  UploadBuildOptions,
+  UploadedBuild,
+};
+
+export type VersionInfo = ReturnType<typeof toVersionJson>;
+
+export interface PublisherOptions {
+  // Supabase client authorized as app_publisher (see "Generate APP_PUBLISHER_KEY")
+  client: any;
+  // Base URL build URLs are written against; defaults to the client's public storage URL
+  cdnUrl?: string;
+  // Replaces ~/.publisher-archive/config.json (required platforms, manifest formats, signing key)
+  config?: Config;
+  // Where builds and manifests are written; defaults to the client's archive bucket
+  storage?: StorageDriver;
+  // Replaces publisher.config.json discovery (product name, filename pattern, default metadata)
+  project?: ProjectConfig;
+}
+
+// Commands share one module-level client and config, so SDK calls run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Library entry for driving releases from Node. Every method returns a promise and
+ * rejects with PublisherError (or the underlying Supabase error); nothing prints,
+ * prompts or exits the process.
+ */
+export class Publisher {
+  private readonly cdnUrl: string;
+
+  constructor(private readonly options: PublisherOptions) {
+    this.cdnUrl = options.cdnUrl ?? defaultCdnUrl(options.client);
+  }
+
+  createVersion(version: string, options: CreateVersionOptions = {}): Promise<VersionInfo> {
+    return this.run(async () => toVersionJson(await createVersionRecord(version, this.withChannel(options))));
+  }
+
+  uploadBuild(version: string, filePath: string, options: UploadBuildOptions = {}): Promise<UploadedBuild> {
+    return this.run(() => uploadBuildFile(version, filePath, this.withChannel(options)));
+  }
+
+  publish(version: string, options: PublishReleaseOptions = {}): Promise<PublishResult> {
+    return this.run(() => publishRelease(version, this.withChannel(options)));
+  }
+
+  generateManifest(version: string, options: { channel?: string } = {}): Promise<GeneratedManifest> {
+    return this.run(() => generateManifest(version, { channel: this.withChannel(options).channel, showSpinner: false }));
+  }
+
+  checkForUpdate(installedVersion: string, os: string, arch: string, options: CheckUpdateOptions = {}): Promise<UpdateDecision> {
+    return this.run(() => evaluateUpdate(installedVersion, os, arch, this.withChannel(options)));
+  }
+
+  // The project's default channel applies when a call names none
+  private withChannel<T extends { channel?: string }>(options: T): T {
+    return { ...options, channel: options.channel ?? this.options.project?.channel };
+  }
+
+  private run<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(async () => {
+      const previousClient = activeClient;
+      const previousCdnUrl = activeCdnUrl;
+      useClient(this.options.client, this.cdnUrl);
+      useConfig(this.options.config ?? {});
+      useStorage(this.options.storage ?? null);
+      useProjectConfig(this.options.project ?? {});
+      try {
+        return await task();
+      } finally {
+        useClient(previousClient, previousCdnUrl);
+        useConfig(null);
+        useStorage(null);
+        useProjectConfig(null);
+      }
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function defaultCdnUrl(client: any): string {
+  // getPublicUrl only formats a URL; strip the bucket/path back off
+  const { data } = client.storage.from('archive').getPublicUrl('');
+  return data.publicUrl.replace(/archive\/?$/, '');
+}
@@ -1,6 +1,6 @@
 import readline from 'readline';
 import { Writable } from 'stream';
-import { loadConfig, setConfigValue, getConfigPath } from './utils/config.js';
+import { loadConfig, setConfigValue, getConfigPath, getActiveProfile, DEFAULT_PROFILE, unlockConfig } from './utils/config.js';
 import { theme, icon } from './ui/theme.js';
 import { panel } from './ui/box.js';
 import { ui } from './ui/log.js';
@@ -87,6 +87,7 @@ export async function runSetupWizard(opts: { reason?: 'missing' | 'manual' } = {
       ? theme.muted('credentials are required to use Publisher CLI.')
       : theme.muted('reconfigure your Publisher CLI credentials.')}\n` +
     `${theme.muted('Config file:')} ${theme.accent(getConfigPath())}\n` +
+    (getActiveProfile() === DEFAULT_PROFILE ? '' : `${theme.muted('Profile:')} ${theme.accent(getActiveProfile())}\n`) +
     `${theme.muted('Press Ctrl+C to abort.')}`,
     { color: theme.brand, padding: 1 }
   ));
@@ -147,3 +148,22 @@ export async function runSetupWizard(opts: { reason?: 'missing' | 'manual' } = {
     return false;
   }
 }
+
+/**
+ * Ask for the config passphrase once per session. Returns false after three wrong tries
+ * (or an empty answer), leaving the encrypted secrets unavailable.
+ */
+export async function runUnlockPrompt(): Promise<boolean> {
+  ui.warn('Your config secrets are encrypted.');
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const passphrase = await ask(`  ${theme.dim('›')} Passphrase: `, { secret: true });
+    if (!passphrase) break;
+    if (unlockConfig(passphrase)) {
+      ui.success('Config unlocked for this session');
+      return true;
+    }
+    ui.warn('Wrong passphrase.');
+  }
+  ui.hint('Continuing without the encrypted secrets. Set PUBLISHER_PASSPHRASE to skip this prompt.');
+  return false;
+}
@@ -0,0 +1,118 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { loadConfig } from '../utils/config.js';
+import { PublisherError } from '../utils/errors.js';
+import { isLocalDatabase, LOCAL_DATA_DIR } from '../db/index.js';
+import { LocalStorageDriver } from './local.js';
+import { S3StorageDriver } from './s3.js';
+import { SupabaseStorageDriver } from './supabase.js';
+
+export const STORAGE_DRIVERS = ['supabase', 'local', 's3'] as const;
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
+export interface UploadEvents {
+  // Every byte of the file, once and in order (also bytes a resumed upload does not resend)
+  onData?: (chunk: Buffer) => void;
+  // Bytes stored so far out of the file size
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+/**
+ * Object store behind builds and manifests. Paths are relative to the archive
+ * (e.g. `releases/stable/1.2.0/manifest.xml`); public URLs are `{CDN_URL}archive/{path}`.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  // Creates or overwrites the object
+  upload(path: string, body: Buffer | string, contentType: string): Promise<void>;
+  // Streams a file from disk instead of holding it in memory. Optional for custom drivers;
+  // without it build uploads read the file into memory and call upload
+  uploadFile?(path: string, filePath: string, contentType: string, events?: UploadEvents): Promise<void>;
+  // null when the object does not exist
+  download(path: string): Promise<Buffer | null>;
+  copy(from: string, to: string): Promise<void>;
+  // Missing objects are ignored
+  remove(paths: string[]): Promise<void>;
+  // Every object under `prefix/`
+  removeFolder(prefix: string): Promise<void>;
+}
+
+let injectedDriver: StorageDriver | null = null;
+
+export function useStorage(driver: StorageDriver | null) {
+  injectedDriver = driver;
+}
+
+function setting(key: 'STORAGE_DRIVER' | 'STORAGE_LOCAL_DIR' | 'S3_ENDPOINT' | 'S3_REGION' | 'S3_BUCKET' | 'S3_ACCESS_KEY_ID' | 'S3_SECRET_ACCESS_KEY'): string | undefined {
+  const value = process.env[key] || loadConfig()[key];
+  if (value) return value;
+  // A local database defaults to local storage next to it, so offline mode needs no setup
+  if (isLocalDatabase()) {
+    if (key === 'STORAGE_DRIVER') return 'local';
+    if (key === 'STORAGE_LOCAL_DIR') return LOCAL_DATA_DIR;
+  }
+  return undefined;
+}
+
+export function isStorageDriverName(value: string): value is StorageDriverName {
+  return STORAGE_DRIVERS.includes(value as StorageDriverName);
+}
+
+export function getStorageDriverName(): StorageDriverName {
+  if (injectedDriver) return injectedDriver.name;
+  const name = setting('STORAGE_DRIVER') || 'supabase';
+  if (!isStorageDriverName(name)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid STORAGE_DRIVER: ${name}. Supported: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+  return name;
+}
+
+function requireSetting(key: 'STORAGE_LOCAL_DIR' | 'S3_ENDPOINT' | 'S3_ACCESS_KEY_ID' | 'S3_SECRET_ACCESS_KEY'): string {
+  const value = setting(key);
+  if (!value) {
+    throw new PublisherError('MISSING_CREDENTIALS', `${key} is required for the ${getStorageDriverName()} storage driver`);
+  }
+  return value;
+}
+
+/**
+ * The configured driver (STORAGE_DRIVER env, then config, then local for a local
+ * database and supabase otherwise).
+ */
+export function getStorage(): StorageDriver {
+  if (injectedDriver) return injectedDriver;
+
+  switch (getStorageDriverName()) {
+    case 'local':
+      return new LocalStorageDriver(resolve(requireSetting('STORAGE_LOCAL_DIR')));
+    case 's3':
+      return new S3StorageDriver({
+        endpoint: requireSetting('S3_ENDPOINT'),
+        region: setting('S3_REGION') || 'us-east-1',
+        bucket: setting('S3_BUCKET') || 'publisher',
+        accessKeyId: requireSetting('S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireSetting('S3_SECRET_ACCESS_KEY'),
+      });
+    default:
+      return new SupabaseStorageDriver();
+  }
+}
+
+/**
+ * CDN base for drivers that don't live in Supabase storage, used when CDN_URL is unset.
+ */
+export function defaultStorageCdnUrl(): string | null {
+  // Runs while the CLI starts, so an invalid STORAGE_DRIVER is reported later by getStorage
+  switch (setting('STORAGE_DRIVER')) {
+    case 'local': {
+      const dir = setting('STORAGE_LOCAL_DIR');
+      return dir ? `${pathToFileURL(resolve(dir)).href}/` : null;
+    }
+    case 's3': {
+      const endpoint = setting('S3_ENDPOINT');
+      return endpoint ? `${endpoint.replace(/\/$/, '')}/${setting('S3_BUCKET') || 'publisher'}/` : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,67 @@
+import { createWriteStream } from 'fs';
+import { copyFile, mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import { PublisherError } from '../utils/errors.js';
+import type { StorageDriver, UploadEvents } from './index.js';
+import { readWithEvents } from './stream.js';
+
+/**
+ * Stores objects under `{root}/archive/`, the same layout the CDN URLs use,
+ * so `file://{root}/` works as CDN_URL.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly archiveDir: string;
+
+  constructor(root: string) {
+    this.archiveDir = join(root, 'archive');
+  }
+
+  private resolvePath(path: string): string {
+    const target = resolve(this.archiveDir, path);
+    const rel = relative(this.archiveDir, target);
+    if (!rel || rel.startsWith('..')) {
+      throw new PublisherError('INVALID_ARGUMENT', `Storage path escapes the archive: ${path}`);
+    }
+    return target;
+  }
+
+  async upload(path: string, body: Buffer | string, _contentType: string): Promise<void> {
+    const target = this.resolvePath(path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, body);
+  }
+
+  async uploadFile(path: string, filePath: string, _contentType: string, events: UploadEvents = {}): Promise<void> {
+    const target = this.resolvePath(path);
+    await mkdir(dirname(target), { recursive: true });
+    const { size } = await stat(filePath);
+    await pipeline(readWithEvents(filePath, size, events), createWriteStream(target));
+  }
+
+  async download(path: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(path));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    const target = this.resolvePath(to);
+    await mkdir(dirname(target), { recursive: true });
+    await copyFile(this.resolvePath(from), target);
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      await rm(this.resolvePath(path), { force: true });
+    }
+  }
+
+  async removeFolder(prefix: string): Promise<void> {
+    await rm(this.resolvePath(prefix), { recursive: true, force: true });
+  }
+}
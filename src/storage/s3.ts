@@ -0,0 +1,175 @@
+import { createHash, createHmac } from 'crypto';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { XMLParser } from 'fast-xml-parser';
+import { PublisherError } from '../utils/errors.js';
+import type { StorageDriver, UploadEvents } from './index.js';
+import { readWithEvents } from './stream.js';
+
+export interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+// Streamed bodies can't be hashed before sending; S3, MinIO and R2 accept this marker instead
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const listParser = new XMLParser({ parseTagValue: false });
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * S3-compatible object store (AWS S3, MinIO, R2) using path-style requests signed with
+ * SigV4. Objects are stored as `archive/{path}` so `{endpoint}/{bucket}/` serves as CDN_URL.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly endpoint: URL;
+
+  constructor(private readonly options: S3Options) {
+    this.endpoint = new URL(options.endpoint);
+  }
+
+  private objectKey(path: string): string {
+    return `archive/${path}`;
+  }
+
+  private async request(
+    method: string,
+    key: string | null,
+    init: { query?: Record<string, string>; body?: Buffer | string | Readable; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const basePath = this.endpoint.pathname.replace(/\/$/, '');
+    const path = `${basePath}/${encodeRfc3986(this.options.bucket)}${key !== null ? `/${encodeKey(key)}` : ''}`;
+    const query = Object.entries(init.query || {})
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+      .join('&');
+
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = init.body instanceof Readable ? UNSIGNED_PAYLOAD : init.body !== undefined ? sha256Hex(init.body) : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      host: this.endpoint.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...Object.fromEntries(Object.entries(init.headers || {}).map(([k, v]) => [k.toLowerCase(), v])),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      query,
+      ...signedHeaders.map(h => `${h}:${headers[h].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (k, part) => hmac(k, part),
+      hmac(hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sendHeaders } = headers;
+    return fetch(`${this.endpoint.origin}${path}${query ? `?${query}` : ''}`, {
+      method,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      ...(init.body instanceof Readable
+        ? { body: Readable.toWeb(init.body) as ReadableStream, duplex: 'half' }
+        : { body: typeof init.body === 'string' || init.body === undefined ? init.body : new Uint8Array(init.body) }),
+    } as RequestInit);
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    const body = await response.text();
+    const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new PublisherError('STORAGE_ERROR', `S3 ${action} failed: ${response.status}${code ? ` ${code}` : ''}`, { status: response.status });
+  }
+
+  async upload(path: string, body: Buffer | string, contentType: string): Promise<void> {
+    const response = await this.request('PUT', this.objectKey(path), { body, headers: { 'Content-Type': contentType } });
+    if (!response.ok) await this.fail(response, `upload of ${path}`);
+  }
+
+  // One streamed PUT; S3 needs the length up front since it rejects chunked request bodies
+  async uploadFile(path: string, filePath: string, contentType: string, events: UploadEvents = {}): Promise<void> {
+    const { size } = await stat(filePath);
+    const response = await this.request('PUT', this.objectKey(path), {
+      body: readWithEvents(filePath, size, events),
+      headers: { 'Content-Type': contentType, 'Content-Length': String(size) },
+    });
+    if (!response.ok) await this.fail(response, `upload of ${path}`);
+  }
+
+  async download(path: string): Promise<Buffer | null> {
+    const response = await this.request('GET', this.objectKey(path));
+    if (response.status === 404) return null;
+    if (!response.ok) await this.fail(response, `download of ${path}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    const source = `/${this.options.bucket}/${encodeKey(this.objectKey(from))}`;
+    const response = await this.request('PUT', this.objectKey(to), { headers: { 'x-amz-copy-source': source } });
+    // CopyObject can report an error inside a 200 response
+    const body = await response.text();
+    if (!response.ok || body.includes('<Error>')) {
+      throw new PublisherError('STORAGE_ERROR', `S3 copy of ${from} failed: ${response.status}`, { status: response.status });
+    }
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      const response = await this.request('DELETE', this.objectKey(path));
+      if (!response.ok && response.status !== 404) await this.fail(response, `delete of ${path}`);
+    }
+  }
+
+  async removeFolder(prefix: string): Promise<void> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix: `${this.objectKey(prefix)}/` };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await this.request('GET', null, { query });
+      if (!response.ok) await this.fail(response, `list of ${prefix}`);
+
+      const result = listParser.parse(await response.text()).ListBucketResult || {};
+      const contents = result.Contents ? [].concat(result.Contents) : [];
+      keys.push(...contents.map((item: any) => String(item.Key)));
+      continuationToken = result.IsTruncated === 'true' ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    await this.remove(keys.map(key => key.slice('archive/'.length)));
+  }
+}
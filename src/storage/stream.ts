@@ -0,0 +1,22 @@
+import { createReadStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import type { UploadEvents } from './index.js';
+
+/**
+ * A read stream of the file that reports each chunk to `events` as the driver consumes it.
+ */
+export function readWithEvents(filePath: string, size: number, events: UploadEvents): Readable {
+  let read = 0;
+  events.onProgress?.(0, size);
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      events.onData?.(chunk);
+      read += chunk.length;
+      events.onProgress?.(read, size);
+      callback(null, chunk);
+    },
+  });
+  // pipe() does not forward errors, and a consumer waiting on `tap` would never finish
+  const source = createReadStream(filePath).on('error', error => tap.destroy(error));
+  return source.pipe(tap);
+}
@@ -0,0 +1,86 @@
+import { supabase } from '../client.js';
+import type { StorageDriver, UploadEvents } from './index.js';
+import { tusUpload } from './tus.js';
+
+const BUCKET = 'archive';
+// Supabase Storage only accepts 6 MB chunks on its resumable endpoint
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+export class SupabaseStorageDriver implements StorageDriver {
+  readonly name = 'supabase' as const;
+
+  private bucket() {
+    return supabase.storage.from(BUCKET);
+  }
+
+  async upload(path: string, body: Buffer | string, contentType: string): Promise<void> {
+    const { error } = await this.bucket().upload(path, body, { contentType, upsert: true });
+    if (error) throw error;
+  }
+
+  /**
+   * Resumable (TUS) upload to the client's storage endpoint with the client's own auth headers.
+   */
+  async uploadFile(path: string, filePath: string, contentType: string, events: UploadEvents = {}): Promise<void> {
+    const storage = supabase.storage;
+    await tusUpload({
+      endpoint: `${storage.url}/upload/resumable`,
+      headers: {
+        ...storage.headers,
+        ...(supabase.supabaseKey ? { apikey: supabase.supabaseKey } : {}),
+        'x-upsert': 'true',
+      },
+      metadata: { bucketName: BUCKET, objectName: path, contentType, cacheControl: '3600' },
+      filePath,
+      chunkSize: RESUMABLE_CHUNK_SIZE,
+      fingerprint: `${storage.url}/${BUCKET}/${path}`,
+      ...events,
+    });
+  }
+
+  async download(path: string): Promise<Buffer | null> {
+    const { data, error } = await this.bucket().download(path);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    const { error } = await this.bucket().copy(from, to);
+    if (error) throw error;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await this.bucket().remove(paths);
+    if (error) throw error;
+  }
+
+  /**
+   * Storage has no recursive delete: list each level and remove files, then recurse into folders.
+   */
+  async removeFolder(prefix: string): Promise<void> {
+    const { data: items, error } = await this.bucket().list(prefix, { limit: 1000 });
+
+    if (error) throw error;
+    if (!items || items.length === 0) return;
+
+    const filePaths: string[] = [];
+    const subfolders: string[] = [];
+
+    for (const item of items) {
+      if (item.id) {
+        // It's a file
+        filePaths.push(`${prefix}/${item.name}`);
+      } else {
+        // It's a virtual folder
+        subfolders.push(`${prefix}/${item.name}`);
+      }
+    }
+
+    await this.remove(filePaths);
+
+    for (const subfolder of subfolders) {
+      await this.removeFolder(subfolder);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { open, stat } from 'fs/promises';
+import { ensureConfigDir, getUploadStatePath } from '../utils/config.js';
+import { PublisherError } from '../utils/errors.js';
+import type { UploadEvents } from './index.js';
+
+// Minimal TUS 1.0 client (core protocol + creation). The file is read once and sent in
+// fixed-size chunks; after a failure the upload continues from the offset the server reports,
+// and the upload URL is remembered so the next run can continue it too.
+
+const TUS_VERSION = '1.0.0';
+// Waits before each retry of a failed request, as in tus-js-client
+const RETRY_DELAYS_MS = [0, 3000, 5000, 10000, 20000];
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+// Supabase Storage keeps unfinished uploads for a day
+const RESUME_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface TusUploadOptions extends UploadEvents {
+  // Creation endpoint, e.g. {SUPABASE_URL}/storage/v1/upload/resumable
+  endpoint: string;
+  headers: Record<string, string>;
+  metadata: Record<string, string>;
+  filePath: string;
+  chunkSize: number;
+  // The destination; with the file's path, size and mtime it keys the remembered upload URL
+  fingerprint: string;
+}
+
+interface ResumeEntry {
+  url: string;
+  createdAt: number;
+}
+
+// Network failures, 5xx, 409 offset mismatch, 423 locked: ask for the offset and try again
+class RetryableError extends Error {}
+// 404/410: the server no longer knows the upload, so it starts over under a new URL
+class ExpiredUploadError extends Error {}
+
+function readResumeState(): Record<string, ResumeEntry> {
+  try {
+    return JSON.parse(readFileSync(getUploadStatePath(), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function rememberUpload(key: string, url: string | null) {
+  const now = Date.now();
+  const state = Object.fromEntries(Object.entries(readResumeState()).filter(([, entry]) => now - entry.createdAt < RESUME_TTL_MS));
+  if (url) {
+    state[key] = { url, createdAt: now };
+  } else {
+    delete state[key];
+  }
+  // Resuming is best effort; an unwritable config dir only costs a fresh upload next time
+  try {
+    ensureConfigDir();
+    writeFileSync(getUploadStatePath(), JSON.stringify(state, null, 2), { mode: 0o600 });
+  } catch {}
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf-8').toString('base64')}`)
+    .join(',');
+}
+
+async function request(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error: any) {
+    throw new RetryableError(error.cause?.message || error.message);
+  }
+}
+
+async function failure(response: Response, action: string): Promise<Error> {
+  const body = (await response.text().catch(() => '')).trim().slice(0, 200);
+  const message = `${action}: HTTP ${response.status}${body ? ` ${body}` : ''}`;
+  if (response.status === 404 || response.status === 410) return new ExpiredUploadError(message);
+  if (response.status >= 500 || [409, 423, 429].includes(response.status)) return new RetryableError(message);
+  return new PublisherError('STORAGE_ERROR', message, { status: response.status });
+}
+
+async function createUpload(options: TusUploadOptions, size: number): Promise<string> {
+  const response = await request(options.endpoint, {
+    method: 'POST',
+    headers: {
+      ...options.headers,
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(size),
+      'Upload-Metadata': encodeMetadata(options.metadata),
+    },
+  });
+  const location = response.headers.get('location');
+  if (response.status !== 201 || !location) {
+    throw await failure(response, 'Creating the upload');
+  }
+  return new URL(location, options.endpoint).href;
+}
+
+async function fetchOffset(url: string, headers: Record<string, string>): Promise<number> {
+  const response = await request(url, { method: 'HEAD', headers: { ...headers, 'Tus-Resumable': TUS_VERSION } });
+  const offset = Number(response.headers.get('upload-offset'));
+  if (!response.ok || !Number.isInteger(offset)) {
+    throw await failure(response, 'Reading the upload offset');
+  }
+  return offset;
+}
+
+async function sendChunk(url: string, headers: Record<string, string>, offset: number, chunk: Buffer): Promise<number> {
+  const response = await request(url, {
+    method: 'PATCH',
+    headers: {
+      ...headers,
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream',
+    },
+    body: new Uint8Array(chunk),
+  });
+  if (!response.ok) {
+    throw await failure(response, `Sending bytes ${offset}-${offset + chunk.length}`);
+  }
+  const next = Number(response.headers.get('upload-offset'));
+  return Number.isInteger(next) ? next : offset + chunk.length;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Upload a file, continuing an earlier attempt when one was remembered for the same file and
+ * destination. `onData` sees every byte exactly once and in order, including the part an
+ * earlier attempt already sent, so callers can hash while uploading.
+ */
+export async function tusUpload(options: TusUploadOptions): Promise<void> {
+  const { size, mtimeMs } = await stat(options.filePath);
+  const key = createHash('sha256').update([options.fingerprint, options.filePath, size, mtimeMs].join('\n')).digest('hex');
+  const file = await open(options.filePath, 'r');
+
+  let hashed = 0;
+  const read = async (position: number, length: number): Promise<Buffer> => {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    if (bytesRead !== length) {
+      throw new PublisherError('STORAGE_ERROR', `${options.filePath} changed during the upload`);
+    }
+    if (position + length > hashed) {
+      options.onData?.(buffer.subarray(hashed - position));
+      hashed = position + length;
+    }
+    return buffer;
+  };
+
+  try {
+    let url: string | null = readResumeState()[key]?.url ?? null;
+    let offset = 0;
+    if (url) {
+      offset = await fetchOffset(url, options.headers).catch(() => {
+        url = null;
+        return 0;
+      });
+    }
+    if (!url) {
+      url = await createUpload(options, size);
+      rememberUpload(key, url);
+    }
+    options.onProgress?.(offset, size);
+
+    let failures = 0;
+    while (offset < size) {
+      // A resumed upload skips bytes on the wire, not in the checksums
+      while (hashed < offset) {
+        await read(hashed, Math.min(options.chunkSize, offset - hashed));
+      }
+
+      try {
+        const chunk = await read(offset, Math.min(options.chunkSize, size - offset));
+        offset = await sendChunk(url, options.headers, offset, chunk);
+        failures = 0;
+        options.onProgress?.(offset, size);
+      } catch (error: any) {
+        if (!(error instanceof RetryableError || error instanceof ExpiredUploadError)) throw error;
+        if (failures >= RETRY_DELAYS_MS.length) {
+          throw new PublisherError('STORAGE_ERROR', `Upload failed after ${failures} retries: ${error.message}`, { uploaded: offset, size });
+        }
+        await delay(RETRY_DELAYS_MS[failures++]);
+
+        try {
+          if (error instanceof ExpiredUploadError) throw error;
+          offset = await fetchOffset(url, options.headers);
+        } catch (resyncError) {
+          if (resyncError instanceof ExpiredUploadError) {
+            url = await createUpload(options, size);
+            rememberUpload(key, url);
+            offset = 0;
+          } else if (!(resyncError instanceof RetryableError)) {
+            throw resyncError;
+          }
+        }
+        options.onProgress?.(offset, size);
+      }
+    }
+
+    // The server may already hold the whole file (an earlier run finished sending but never
+    // forgot the URL); the checksums still need every byte
+    while (hashed < size) {
+      await read(hashed, Math.min(options.chunkSize, size - hashed));
+    }
+
+    rememberUpload(key, null);
+  } catch (error: any) {
+    if (error instanceof RetryableError || error instanceof ExpiredUploadError) {
+      throw new PublisherError('STORAGE_ERROR', error.message);
+    }
+    throw error;
+  } finally {
+    await file.close();
+  }
+}
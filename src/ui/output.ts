@@ -0,0 +1,71 @@
+import ora, { Ora } from 'ora';
+import { toErrorObject } from '../utils/errors.js';
+
+// Global --json mode: human output (console, spinners) is silenced and each command
+// writes exactly one JSON document to stdout.
+
+const humanConsole = {
+  log: console.log,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+const silent = () => {};
+
+let jsonMode = false;
+let currentCommand: string | null = null;
+let emitted = false;
+
+export function setJsonMode(enabled: boolean, command: string | null = null) {
+  jsonMode = enabled;
+  currentCommand = command;
+  emitted = false;
+
+  console.log = enabled ? silent : humanConsole.log;
+  console.info = enabled ? silent : humanConsole.info;
+  console.warn = enabled ? silent : humanConsole.warn;
+  console.error = enabled ? silent : humanConsole.error;
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Prompts need a terminal and would corrupt the JSON document, so both rule them out.
+ */
+export function canPrompt(): boolean {
+  return !!process.stdin.isTTY && !jsonMode;
+}
+
+export function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: jsonMode }).start();
+}
+
+function write(document: Record<string, unknown>) {
+  if (!jsonMode || emitted) return;
+  emitted = true;
+  process.stdout.write(`${JSON.stringify(document)}\n`);
+}
+
+/**
+ * Report a command's result. A no-op outside --json mode.
+ */
+export function emitResult(data: unknown) {
+  write({ ok: true, command: currentCommand, data });
+}
+
+/**
+ * Report a command failure with its stable error code. A no-op outside --json mode.
+ */
+export function emitError(error: unknown) {
+  write({ ok: false, command: currentCommand, error: toErrorObject(error) });
+}
+
+/**
+ * Close out a command that finished without reporting anything.
+ */
+export function finishJsonCommand() {
+  write({ ok: true, command: currentCommand, data: null });
+}
@@ -0,0 +1,34 @@
+import { theme } from './theme.js';
+
+const BAR_WIDTH = 24;
+const UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${UNITS[unit]}`;
+}
+
+/**
+ * Renders spinner text for a transfer: bar, bytes done and average throughput. Bytes already
+ * there at the first call (a resumed upload) don't count toward the throughput.
+ */
+export function createTransferMeter(total: number): (done: number) => string {
+  let start: { at: number; bytes: number } | null = null;
+
+  return (done: number) => {
+    const now = Date.now();
+    start ??= { at: now, bytes: done };
+
+    const ratio = total > 0 ? Math.min(done / total, 1) : 1;
+    const filled = Math.round(ratio * BAR_WIDTH);
+    const bar = theme.accent('█'.repeat(filled)) + theme.muted('░'.repeat(BAR_WIDTH - filled));
+    const seconds = (now - start.at) / 1000;
+    const speed = seconds >= 1 ? theme.muted(` · ${formatBytes((done - start.bytes) / seconds)}/s`) : '';
+    return `${bar} ${Math.floor(ratio * 100)}% ${formatBytes(done)} / ${formatBytes(total)}${speed}`;
+  };
+}
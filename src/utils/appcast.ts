@@ -0,0 +1,147 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { BuildEntry, buildSourceVersion, directSource, Manifest } from './manifest.js';
+
+export const APPCAST_FILENAME = 'appcast.xml';
+export const APPCAST_CONTENT_TYPE = 'application/xml';
+
+const SPARKLE_NS = 'http://www.andymatuschak.org/xml-namespaces/sparkle';
+
+// Custom build metadata (--meta key=value) read by the appcast emitter
+export const APPCAST_METADATA_KEYS = {
+  minimumSystemVersion: 'minOsVersion',
+  edSignature: 'edSignature',
+  bundleVersion: 'bundleVersion',
+} as const;
+
+export interface AppcastItem {
+  title: string;
+  pubDate?: string | null;
+  version: string;
+  shortVersionString: string;
+  minimumSystemVersion?: string | null;
+  hardwareRequirements?: string | null;
+  critical: boolean;
+  releaseNotes?: string | null;
+  enclosure: {
+    url: string;
+    length: number;
+    type: string;
+    edSignature?: string | null;
+  };
+}
+
+function enclosureType(packageName?: string | null): string {
+  const lower = (packageName || '').toLowerCase();
+  if (lower.endsWith('.dmg')) return 'application/x-apple-diskimage';
+  if (lower.endsWith('.zip')) return 'application/zip';
+  if (lower.endsWith('.tar.gz')) return 'application/gzip';
+  return 'application/octet-stream';
+}
+
+function metaString(entry: BuildEntry, key: string): string | null {
+  const value = entry.metadata?.[key];
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+// RFC 822 date of the first parseable timestamp; Sparkle shows nothing rather than "Invalid Date"
+function rfc822Date(...values: (string | null | undefined)[]): string | null {
+  for (const value of values) {
+    const date = value ? new Date(value) : null;
+    if (date && !Number.isNaN(date.getTime())) return date.toUTCString();
+  }
+  return null;
+}
+
+/**
+ * Map every direct macOS installer in the manifest to a Sparkle item. Store builds are
+ * skipped because Sparkle can only install from a downloadable enclosure, and patches
+ * because Sparkle would offer them as a full update.
+ *
+ * A build from an older release keeps that release's version and date; the mandatory flag
+ * and release notes describe the channel's latest version only, so those builds go without.
+ */
+export function manifestToAppcastItems(manifest: Manifest): AppcastItem[] {
+  const items: AppcastItem[] = [];
+  const macos = manifest.platforms.find(p => p.os === 'macos');
+  if (!macos) return items;
+
+  for (const arch of macos.archs) {
+    for (const variant of arch.variants) {
+      const entry = variant.builds.installer;
+      const direct = entry ? directSource(entry) : null;
+      if (!direct) continue;
+
+      const version = buildSourceVersion(direct, manifest);
+      const isLatest = version === manifest.version;
+      const labels = [arch.name, variant.name !== 'default' ? variant.name : null].filter(Boolean).join(', ');
+
+      items.push({
+        title: `${manifest.name} ${version} (${labels})`,
+        pubDate: isLatest ? rfc822Date(manifest.releaseDate, direct.releaseDate) : rfc822Date(direct.releaseDate),
+        version: metaString(direct, APPCAST_METADATA_KEYS.bundleVersion) || version,
+        shortVersionString: version,
+        minimumSystemVersion: metaString(direct, APPCAST_METADATA_KEYS.minimumSystemVersion),
+        hardwareRequirements: arch.name === 'arm64' ? 'arm64' : null,
+        critical: isLatest && manifest.mandatory,
+        releaseNotes: isLatest ? manifest.releaseNotes : null,
+        enclosure: {
+          url: direct.url,
+          length: direct.size ?? 0,
+          type: enclosureType(direct.packageName),
+          edSignature: metaString(direct, APPCAST_METADATA_KEYS.edSignature),
+        },
+      });
+    }
+  }
+
+  return items;
+}
+
+const appcastBuilder = new XMLBuilder({
+  format: true,
+  indentBy: '  ',
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  suppressBooleanAttributes: false,
+  suppressEmptyNode: true,
+  cdataPropName: '#cdata',
+  textNodeName: '#text',
+  processEntities: true,
+});
+
+export function manifestToAppcast(manifest: Manifest): string {
+  const items = manifestToAppcastItems(manifest).map((item) => {
+    const obj: any = { title: item.title };
+    if (item.pubDate) obj.pubDate = item.pubDate;
+    obj['sparkle:version'] = item.version;
+    obj['sparkle:shortVersionString'] = item.shortVersionString;
+    if (item.minimumSystemVersion) obj['sparkle:minimumSystemVersion'] = item.minimumSystemVersion;
+    if (item.hardwareRequirements) obj['sparkle:hardwareRequirements'] = item.hardwareRequirements;
+    // Marker element; the empty text node keeps it from being suppressed
+    if (item.critical) obj['sparkle:criticalUpdate'] = { '#text': '' };
+    if (item.releaseNotes) obj.description = { '#cdata': item.releaseNotes };
+
+    const enclosure: Record<string, any> = {
+      '@_url': item.enclosure.url,
+      '@_length': item.enclosure.length,
+      '@_type': item.enclosure.type,
+    };
+    if (item.enclosure.edSignature) enclosure['@_sparkle:edSignature'] = item.enclosure.edSignature;
+    obj.enclosure = enclosure;
+    return obj;
+  });
+
+  const body = appcastBuilder.build({
+    rss: {
+      '@_version': '2.0',
+      '@_xmlns:sparkle': SPARKLE_NS,
+      channel: {
+        title: `${manifest.name} (${manifest.channel})`,
+        description: `Updates for ${manifest.name} on the ${manifest.channel} channel`,
+        language: 'en',
+        item: items,
+      },
+    },
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+}
@@ -1,25 +1,109 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, chmodSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 import chalk from 'chalk';
+import { PublisherError } from './errors.js';
+import {
+  createEncryptionHeader,
+  decryptValue,
+  deriveKey,
+  encryptValue,
+  EncryptionHeader,
+  isEncryptedValue,
+  verifyKey,
+} from './secrets.js';
 
 const CONFIG_DIR = join(homedir(), '.publisher-archive');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+// Resumable uploads that have not finished, so an interrupted transfer continues on the next run
+const UPLOADS_FILE = join(CONFIG_DIR, 'uploads.json');
 
-interface Config {
+export interface Config {
   SUPABASE_URL?: string;
   SUPABASE_ANON_KEY?: string;
   APP_PUBLISHER_KEY?: string;
   CDN_URL?: string;
+  MANIFEST_SIGNING_KEY?: string;
+  MANIFEST_PUBLIC_KEY?: string;
+  DATABASE_DRIVER?: string;
+  DATABASE_LOCAL_FILE?: string;
+  DATABASE_URL?: string;
+  STORAGE_DRIVER?: string;
+  STORAGE_LOCAL_DIR?: string;
+  S3_ENDPOINT?: string;
+  S3_REGION?: string;
+  S3_BUCKET?: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  requiredPlatforms?: Record<string, string[]>;
+  manifestFormats?: Record<string, string[]>;
 }
 
+// Per-channel settings keyed by channel name, or "*" for every channel
+export type ChannelSettingKey = 'requiredPlatforms' | 'manifestFormats';
+export type ConfigValueKey = Exclude<keyof Config, ChannelSettingKey>;
+
+// Encrypted at rest once a passphrase is set (PUBLISHER_PASSPHRASE, the REPL unlock or config:rekey)
+export const SECRET_CONFIG_KEYS: ConfigValueKey[] = [
+  'SUPABASE_ANON_KEY',
+  'APP_PUBLISHER_KEY',
+  'MANIFEST_SIGNING_KEY',
+  'S3_SECRET_ACCESS_KEY',
+  'DATABASE_URL',
+];
+
 export function ensureConfigDir() {
   if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+    mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
   }
 }
 
-export function loadConfig(): Config {
+// Set by the SDK so embedded use never reads ~/.publisher-archive/config.json
+let injectedConfig: Config | null = null;
+
+export function useConfig(config: Config | null) {
+  injectedConfig = config;
+}
+
+// Top-level values form the "default" profile; named profiles live under `profiles`. A named
+// profile inherits only the per-channel settings (platforms, formats): credentials and
+// endpoints never leak from one environment into another.
+export const DEFAULT_PROFILE = 'default';
+const SHARED_PROFILE_KEYS: ChannelSettingKey[] = ['requiredPlatforms', 'manifestFormats'];
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface StoredConfig extends Config {
+  profiles?: Record<string, Config>;
+  encryption?: EncryptionHeader;
+}
+
+// Set from the global --profile flag or the REPL /profile command
+let selectedProfile: string | null = null;
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+export function setActiveProfile(name: string | null) {
+  selectedProfile = name;
+}
+
+/**
+ * --profile / REPL selection, then PUBLISHER_PROFILE, then the default profile.
+ */
+export function getActiveProfile(): string {
+  return selectedProfile || process.env.PUBLISHER_PROFILE || DEFAULT_PROFILE;
+}
+
+function resolveProfile(base: Config, profiles: Record<string, Config> | undefined, profile: string): Config {
+  if (profile === DEFAULT_PROFILE) {
+    return base;
+  }
+  const shared = Object.fromEntries(SHARED_PROFILE_KEYS.filter(key => base[key]).map(key => [key, base[key]]));
+  return { ...shared, ...(profiles?.[profile] || {}) };
+}
+
+function readConfigFile(): StoredConfig {
   try {
     if (!existsSync(CONFIG_FILE)) {
       return {};
@@ -32,36 +116,284 @@ export function loadConfig(): Config {
   }
 }
 
-export function saveConfig(config: Config) {
+// Passphrase entered in the REPL; PUBLISHER_PASSPHRASE applies otherwise
+let unlockedPassphrase: string | null = null;
+// scrypt is deliberately slow, so keep the key for the salt it was derived with
+let derivedKey: { salt: string; passphrase: string; key: Buffer } | null = null;
+let warnedWrongPassphrase = false;
+
+function sessionPassphrase(): string | null {
+  return unlockedPassphrase || process.env.PUBLISHER_PASSPHRASE || null;
+}
+
+function keyFor(header: EncryptionHeader, passphrase: string): Buffer | null {
+  if (derivedKey && derivedKey.salt === header.salt && derivedKey.passphrase === passphrase) {
+    return derivedKey.key;
+  }
+  const key = deriveKey(passphrase, header);
+  if (!verifyKey(header, key)) return null;
+  derivedKey = { salt: header.salt, passphrase, key };
+  return key;
+}
+
+/**
+ * Key for the file's header, or null when no (correct) passphrase is available.
+ */
+function encryptionKey(header: EncryptionHeader): Buffer | null {
+  const passphrase = sessionPassphrase();
+  if (!passphrase) return null;
+  const key = keyFor(header, passphrase);
+  if (!key && !warnedWrongPassphrase) {
+    warnedWrongPassphrase = true;
+    console.error(chalk.yellow('Warning: The passphrase does not unlock the config file; encrypted values are ignored'));
+  }
+  return key;
+}
+
+export function isConfigEncrypted(): boolean {
+  return !!readConfigFile().encryption;
+}
+
+/**
+ * Encrypted values exist but cannot be read with the current passphrase.
+ */
+export function isConfigLocked(): boolean {
+  if (injectedConfig) return false;
+  const { encryption } = readConfigFile();
+  return !!encryption && !encryptionKey(encryption);
+}
+
+/**
+ * Unlock for the rest of the process (REPL session). False when the passphrase is wrong.
+ */
+export function unlockConfig(passphrase: string): boolean {
+  const { encryption } = readConfigFile();
+  if (encryption && !keyFor(encryption, passphrase)) {
+    return false;
+  }
+  unlockedPassphrase = passphrase;
+  return true;
+}
+
+function mapSecrets(stored: StoredConfig, map: (value: string) => string | undefined) {
+  const sections: Config[] = [stored, ...Object.values(stored.profiles || {})];
+  for (const section of sections) {
+    for (const key of SECRET_CONFIG_KEYS) {
+      const value = section[key];
+      if (value === undefined) continue;
+      const next = map(value);
+      if (next === undefined) {
+        delete section[key];
+      } else {
+        section[key] = next;
+      }
+    }
+  }
+}
+
+/**
+ * Plaintext copy for reading: encrypted values are decrypted, or dropped while locked.
+ */
+function openSecrets(stored: StoredConfig): StoredConfig {
+  const { encryption, ...rest } = stored;
+  if (!encryption) return rest;
+  const opened: StoredConfig = JSON.parse(JSON.stringify(rest));
+  const key = encryptionKey(encryption);
+  mapSecrets(opened, value => {
+    if (!isEncryptedValue(value)) return value;
+    if (!key) return undefined;
+    try {
+      return decryptValue(key, value);
+    } catch {
+      return undefined;
+    }
+  });
+  return opened;
+}
+
+/**
+ * Encrypt plaintext secrets before writing. The first write with a passphrase available
+ * turns encryption on for the whole file.
+ */
+function sealSecrets(stored: StoredConfig): StoredConfig {
+  let header = stored.encryption;
+  let key: Buffer | null = null;
+
+  if (header) {
+    key = encryptionKey(header);
+  } else {
+    const passphrase = sessionPassphrase();
+    if (passphrase) {
+      const created = createEncryptionHeader(passphrase);
+      header = created.header;
+      key = created.key;
+      derivedKey = { salt: header.salt, passphrase, key };
+    }
+  }
+
+  const sealed: StoredConfig = JSON.parse(JSON.stringify({ ...stored, ...(header ? { encryption: header } : {}) }));
+  if (!header) return sealed;
+
+  mapSecrets(sealed, value => {
+    if (isEncryptedValue(value)) return value;
+    if (!key) {
+      throw new PublisherError('CONFIG_LOCKED', 'The config file is encrypted. Set PUBLISHER_PASSPHRASE (or unlock it in publisher chat) to save secrets');
+    }
+    return encryptValue(key, value);
+  });
+  return sealed;
+}
+
+function writeConfigFile(stored: StoredConfig) {
   ensureConfigDir();
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+  const sealed = sealSecrets(stored);
+  writeFileSync(CONFIG_FILE, JSON.stringify(sealed, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  // mode only applies when the file is created
+  chmodSync(CONFIG_FILE, 0o600);
+}
+
+/**
+ * Effective config for the active profile.
+ */
+export function loadConfig(): Config {
+  if (injectedConfig) {
+    return { ...injectedConfig };
+  }
+  const { profiles, ...base } = openSecrets(readConfigFile());
+  return resolveProfile(base, profiles, getActiveProfile());
+}
+
+/**
+ * Re-encrypt every secret under a new passphrase (or encrypt a plaintext file for the first time).
+ */
+export function rekeyConfig(newPassphrase: string) {
+  const stored = readConfigFile();
+  if (stored.encryption && isConfigLocked()) {
+    throw new PublisherError('CONFIG_LOCKED', 'The current passphrase is required to rekey. Set PUBLISHER_PASSPHRASE');
+  }
+  const opened = openSecrets(stored);
+  const previous = unlockedPassphrase;
+  unlockedPassphrase = newPassphrase;
+  try {
+    writeConfigFile(opened);
+  } catch (error) {
+    unlockedPassphrase = previous;
+    throw error;
+  }
+}
+
+/**
+ * Keys the active profile has set but that stay encrypted because the config is locked.
+ */
+export function getLockedKeys(): ConfigValueKey[] {
+  if (injectedConfig || !isConfigLocked()) return [];
+  const { profiles, ...base } = readConfigFile();
+  const raw = resolveProfile(base, profiles, getActiveProfile());
+  return SECRET_CONFIG_KEYS.filter(key => isEncryptedValue(raw[key]));
+}
+
+/**
+ * Apply a change to the active profile's own values only.
+ */
+function updateProfile(change: (config: Config) => void) {
+  const stored = readConfigFile();
+  const profile = getActiveProfile();
+  if (profile === DEFAULT_PROFILE) {
+    change(stored);
+  } else {
+    const profiles = stored.profiles || {};
+    const values = profiles[profile] || {};
+    change(values);
+    stored.profiles = { ...profiles, [profile]: values };
+  }
+  writeConfigFile(stored);
+}
+
+export function listProfiles(): string[] {
+  return [DEFAULT_PROFILE, ...Object.keys(readConfigFile().profiles || {})];
+}
+
+export function profileExists(name: string): boolean {
+  return name === DEFAULT_PROFILE || !!readConfigFile().profiles?.[name];
+}
+
+/**
+ * Values a profile sets itself (without the defaults it inherits).
+ */
+export function loadProfileValues(name: string): Config {
+  const { profiles, ...base } = readConfigFile();
+  return name === DEFAULT_PROFILE ? base : { ...(profiles?.[name] || {}) };
 }
 
-export function getConfigValue(key: keyof Config): string | undefined {
+export function getConfigValue(key: ConfigValueKey): string | undefined {
   const config = loadConfig();
   return config[key];
 }
 
-export function setConfigValue(key: keyof Config, value: string) {
-  const config = loadConfig();
-  config[key] = value;
-  saveConfig(config);
+export function setConfigValue(key: ConfigValueKey, value: string) {
+  updateProfile(config => {
+    config[key] = value;
+  });
 }
 
-export function deleteConfigValue(key: keyof Config) {
-  const config = loadConfig();
-  delete config[key];
-  saveConfig(config);
+export function deleteConfigValue(key: ConfigValueKey) {
+  updateProfile(config => {
+    delete config[key];
+  });
+}
+
+export function setChannelSetting(key: ChannelSettingKey, channel: string, values: string[] | null) {
+  updateProfile(config => {
+    const matrix = { ...(config[key] || {}) };
+    if (values === null) {
+      delete matrix[channel];
+    } else {
+      matrix[channel] = values;
+    }
+    if (Object.keys(matrix).length > 0) {
+      config[key] = matrix;
+    } else {
+      delete config[key];
+    }
+  });
 }
 
-export function clearConfig() {
-  saveConfig({});
+/**
+ * Clears the active profile. For the default profile that is the top-level values; named
+ * profiles are kept (with the passphrase protecting them) and returned.
+ */
+export function clearConfig(): string[] {
+  const profile = getActiveProfile();
+  const stored = readConfigFile();
+  if (profile === DEFAULT_PROFILE) {
+    const kept = Object.keys(stored.profiles || {});
+    // Values are copied as stored, so a locked config can still be cleared; with nothing
+    // left to protect the passphrase goes too
+    const remaining: StoredConfig = kept.length > 0 ? { profiles: stored.profiles, encryption: stored.encryption } : {};
+    ensureConfigDir();
+    writeFileSync(CONFIG_FILE, JSON.stringify(remaining, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    // mode only applies when the file is created
+    chmodSync(CONFIG_FILE, 0o600);
+    return kept;
+  }
+  const { [profile]: _removed, ...profiles } = stored.profiles || {};
+  if (Object.keys(profiles).length > 0) {
+    stored.profiles = profiles;
+  } else {
+    delete stored.profiles;
+  }
+  writeConfigFile(stored);
+  return Object.keys(profiles);
 }
 
 export function getConfigPath(): string {
   return CONFIG_FILE;
 }
 
+export function getUploadStatePath(): string {
+  return UPLOADS_FILE;
+}
+
 export function configExists(): boolean {
-  return existsSync(CONFIG_FILE);
+  return existsSync(CONFIG_FILE) && profileExists(getActiveProfile());
 }
@@ -0,0 +1,137 @@
+import { BuildSource, buildSourceVersion, directSource, Manifest } from './manifest.js';
+import { DEFAULT_VARIANT, sortVersionsDesc, SUPPORTED_ARCH } from './versioning.js';
+
+export const ELECTRON_FEED_CONTENT_TYPE = 'text/yaml';
+
+// electron-builder arch names where they differ from ours
+const ELECTRON_ARCH: Record<string, string> = {
+  armv7: 'armv7l',
+  x86: 'ia32',
+};
+
+export interface ElectronFeedFile {
+  url: string;
+  sha512?: string;
+  size?: number;
+}
+
+export interface ElectronFeed {
+  filename: string;
+  version: string;
+  files: ElectronFeedFile[];
+  path: string;
+  sha512?: string;
+  releaseDate: string;
+  releaseNotes?: string | null;
+  stagingPercentage?: number;
+}
+
+/**
+ * Feed file electron-updater requests for an OS/arch: latest.yml (Windows), latest-mac.yml,
+ * latest-linux.yml for x64 and latest-linux-{arch}.yml for other Linux archs.
+ */
+export function electronFeedFilename(os: string, arch: string): string | null {
+  if (os === 'windows') return 'latest.yml';
+  if (os === 'macos') return 'latest-mac.yml';
+  if (os === 'linux') {
+    return arch === 'x64' ? 'latest-linux.yml' : `latest-linux-${ELECTRON_ARCH[arch] || arch}.yml`;
+  }
+  return null;
+}
+
+export function allElectronFeedFilenames(): string[] {
+  const names = new Set<string>();
+  for (const os of ['windows', 'macos', 'linux']) {
+    for (const arch of SUPPORTED_ARCH) {
+      names.add(electronFeedFilename(os, arch)!);
+    }
+  }
+  return [...names];
+}
+
+function isZipArchive(build: BuildSource): boolean {
+  const name = build.packageName || build.url.split(/[?#]/)[0];
+  return name.toLowerCase().endsWith('.zip');
+}
+
+export function sha512HexToBase64(hex: string): string {
+  return Buffer.from(hex, 'hex').toString('base64');
+}
+
+/**
+ * Group the manifest's direct installers of the default variant into electron-updater feeds.
+ * Variants and patches have no equivalent in electron-updater and are left out.
+ *
+ * Each feed carries the version of the file it points at: a platform still served by an older
+ * release must not claim the channel's latest version, or clients would update in a loop.
+ * electron-updater on macOS installs from a .zip only, so other macOS installers are left out.
+ */
+export function manifestToElectronFeeds(manifest: Manifest): ElectronFeed[] {
+  const grouped = new Map<string, BuildSource[]>();
+
+  for (const platform of manifest.platforms) {
+    for (const arch of platform.archs) {
+      const filename = electronFeedFilename(platform.os, arch.name);
+      if (!filename) continue;
+
+      const variant = arch.variants.find(v => v.name === DEFAULT_VARIANT);
+      const installer = variant?.builds.installer;
+      const direct = installer ? directSource(installer) : null;
+      if (!direct) continue;
+      if (platform.os === 'macos' && !isZipArchive(direct)) continue;
+
+      const builds = grouped.get(filename) || [];
+      builds.push(direct);
+      grouped.set(filename, builds);
+    }
+  }
+
+  const rollout = manifest.updatePolicy.rolloutPercentage;
+
+  return [...grouped.entries()].map(([filename, candidates]) => {
+    // One feed has one version; archs lagging behind the newest one wait for their own release
+    const version = sortVersionsDesc(candidates.map(build => buildSourceVersion(build, manifest)), v => v)[0];
+    const builds = candidates.filter(build => buildSourceVersion(build, manifest) === version);
+    const isLatest = version === manifest.version;
+
+    const files = builds.map((build) => {
+      const file: ElectronFeedFile = { url: build.url };
+      if (build.sha512) file.sha512 = sha512HexToBase64(build.sha512);
+      if (build.size != null) file.size = build.size;
+      return file;
+    });
+
+    // Notes and rollout belong to the channel's latest version only
+    const feed: ElectronFeed = {
+      filename,
+      version,
+      files,
+      path: files[0].url,
+      releaseDate: isLatest ? manifest.releaseDate : builds[0].releaseDate,
+      releaseNotes: isLatest ? manifest.releaseNotes : null,
+    };
+    if (files[0].sha512) feed.sha512 = files[0].sha512;
+    if (isLatest && rollout < 100) feed.stagingPercentage = rollout;
+    return feed;
+  });
+}
+
+// JSON string literals are valid double-quoted YAML scalars
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+export function electronFeedToYaml(feed: ElectronFeed): string {
+  const lines: string[] = [`version: ${feed.version}`, 'files:'];
+  for (const file of feed.files) {
+    lines.push(`  - url: ${yamlString(file.url)}`);
+    if (file.sha512) lines.push(`    sha512: ${file.sha512}`);
+    if (file.size != null) lines.push(`    size: ${file.size}`);
+  }
+  lines.push(`path: ${yamlString(feed.path)}`);
+  if (feed.sha512) lines.push(`sha512: ${feed.sha512}`);
+  lines.push(`releaseDate: ${yamlString(feed.releaseDate)}`);
+  if (feed.releaseNotes) lines.push(`releaseNotes: ${yamlString(feed.releaseNotes)}`);
+  if (feed.stagingPercentage !== undefined) lines.push(`stagingPercentage: ${feed.stagingPercentage}`);
+  return `${lines.join('\n')}\n`;
+}
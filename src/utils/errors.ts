@@ -0,0 +1,66 @@
+// Stable error codes reported in --json output. Add new codes; never rename existing ones.
+export type ErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'MISSING_CREDENTIALS'
+  | 'CONFIRMATION_REQUIRED'
+  | 'VERSION_NOT_FOUND'
+  | 'VERSION_EXISTS'
+  | 'VERSION_NOT_PUBLISHED'
+  | 'CONFLICT'
+  | 'BUILD_NOT_FOUND'
+  | 'MISSING_BUILDS'
+  | 'FILE_NOT_FOUND'
+  | 'SIGNATURE_INVALID'
+  | 'INVALID_MANIFEST'
+  | 'DATABASE_ERROR'
+  | 'STORAGE_ERROR'
+  | 'NETWORK_ERROR'
+  | 'CHECKS_FAILED'
+  | 'CONFIG_LOCKED'
+  | 'UPLOAD_FAILED'
+  | 'UNEXPECTED_ERROR';
+
+export class PublisherError extends Error {
+  constructor(public code: ErrorCode, message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'PublisherError';
+  }
+}
+
+export interface ErrorObject {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Classify any thrown value: our own errors keep their code, Supabase database and
+ * storage errors map to DATABASE_ERROR / STORAGE_ERROR, fetch failures to NETWORK_ERROR.
+ */
+export function errorCode(error: any): ErrorCode {
+  if (error instanceof PublisherError) return error.code;
+  // fetch failures surface either as a TypeError or wrapped in a PostgrestError message
+  if (/fetch failed/i.test(error?.message || '')) return 'NETWORK_ERROR';
+  if (error?.__isStorageError || error?.name === 'StorageError' || error?.name === 'StorageApiError') {
+    return 'STORAGE_ERROR';
+  }
+  // PostgrestError carries the Postgres SQLSTATE (or a PGRST code) alongside details/hint
+  if (typeof error?.code === 'string' && ('details' in error || 'hint' in error)) {
+    return 'DATABASE_ERROR';
+  }
+  if (error?.code === 'ENOENT') return 'FILE_NOT_FOUND';
+  return 'UNEXPECTED_ERROR';
+}
+
+export function toErrorObject(error: any): ErrorObject {
+  const code = errorCode(error);
+  const message = error?.message ?? String(error);
+
+  if (error instanceof PublisherError) {
+    return error.details ? { code, message, details: error.details } : { code, message };
+  }
+  if (code === 'DATABASE_ERROR') {
+    return { code, message, details: { dbCode: error.code, hint: error.hint ?? null } };
+  }
+  return { code, message };
+}
@@ -0,0 +1,73 @@
+import { PublisherError } from './errors.js';
+
+// Build filenames are matched against a template of {placeholders}; text between them is literal.
+export const DEFAULT_FILENAME_PATTERN = '{product}-{version}-{arch}-{os}.{ext}';
+
+const PATCH_EXTENSIONS = ['tar.gz', 'zip'];
+const BUILD_EXTENSIONS = [...PATCH_EXTENSIONS, 'dmg', 'msi', 'AppImage', 'deb', 'rpm', 'apk'];
+
+const PLACEHOLDERS: Record<string, string> = {
+  product: '[A-Za-z0-9_-]+',
+  version: '[0-9][0-9A-Za-z.+-]*',
+  os: '(?<os>[A-Za-z0-9_]+)',
+  arch: '(?<arch>[A-Za-z0-9_]+)',
+  type: '(?<type>patch|installer)',
+  ext: `(?<ext>${BUILD_EXTENSIONS.map(ext => ext.replace('.', '\\.')).join('|')})`,
+};
+
+export interface ParsedFilename {
+  os: string;
+  arch: string;
+  type: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Turn a template into an anchored regex. It needs {os} and {arch}, plus {type} or {ext} to
+ * tell patches from installers; {product} and {version} match any name and version.
+ */
+export function compileFilenamePattern(pattern: string): RegExp {
+  const cached = compiled.get(pattern);
+  if (cached) return cached;
+
+  const seen = new Set<string>();
+  let source = '';
+  let last = 0;
+  for (const match of pattern.matchAll(/\{(\w+)\}/g)) {
+    const name = match[1];
+    if (!(name in PLACEHOLDERS)) {
+      throw new PublisherError('INVALID_ARGUMENT', `Unknown placeholder {${name}} in filename pattern "${pattern}"`, {
+        placeholders: Object.keys(PLACEHOLDERS),
+      });
+    }
+    if (seen.has(name)) {
+      throw new PublisherError('INVALID_ARGUMENT', `Placeholder {${name}} appears twice in filename pattern "${pattern}"`);
+    }
+    seen.add(name);
+    source += escapeRegExp(pattern.slice(last, match.index)) + PLACEHOLDERS[name];
+    last = match.index! + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(last));
+
+  if (!seen.has('os') || !seen.has('arch') || (!seen.has('type') && !seen.has('ext'))) {
+    throw new PublisherError('INVALID_ARGUMENT', `Filename pattern "${pattern}" must contain {os}, {arch} and {ext} or {type}`);
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  compiled.set(pattern, regex);
+  return regex;
+}
+
+export function parseBuildFilename(filename: string, pattern: string = DEFAULT_FILENAME_PATTERN): ParsedFilename | null {
+  const match = filename.match(compileFilenamePattern(pattern));
+  if (!match?.groups) return null;
+
+  const { os, arch, ext } = match.groups;
+  const type = match.groups.type || (PATCH_EXTENSIONS.includes(ext) ? 'patch' : 'installer');
+  return { os, arch, type };
+}
@@ -0,0 +1,139 @@
+import { loadConfig } from './config.js';
+import { PublisherError } from './errors.js';
+import {
+  Manifest,
+  manifestToJson,
+  manifestToXml,
+  MANIFEST_CONTENT_TYPE,
+  MANIFEST_FILENAME,
+  MANIFEST_JSON_CONTENT_TYPE,
+  MANIFEST_JSON_FILENAME,
+} from './manifest.js';
+import { APPCAST_CONTENT_TYPE, APPCAST_FILENAME, manifestToAppcast } from './appcast.js';
+import {
+  allElectronFeedFilenames,
+  ELECTRON_FEED_CONTENT_TYPE,
+  electronFeedToYaml,
+  manifestToElectronFeeds,
+} from './electron.js';
+import {
+  getManifestSigningKey,
+  MANIFEST_SIGNATURE_CONTENT_TYPE,
+  MANIFEST_SIGNATURE_FILENAME,
+  signManifest,
+} from './signing.js';
+import { manifestToTauriJson, TAURI_FEED_CONTENT_TYPE, TAURI_FEED_FILENAME } from './tauri.js';
+
+export const MANIFEST_FORMATS = ['xml', 'json', 'appcast', 'electron', 'tauri'] as const;
+export type ManifestFormat = typeof MANIFEST_FORMATS[number];
+
+// manifest.xml is the canonical format and is always written
+export const DEFAULT_MANIFEST_FORMATS: ManifestFormat[] = ['xml'];
+
+// Version manifests live under the version folder, channel manifests under channels/{channel}
+export type ManifestScope = 'version' | 'channel';
+
+interface RenderedFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+interface FormatWriter {
+  // Every file the format can produce, used to clean up a channel folder
+  filenames: () => string[];
+  scopes: ManifestScope[];
+  render: (manifest: Manifest) => RenderedFile[];
+}
+
+function singleFile(filename: string, contentType: string, scopes: ManifestScope[], render: (m: Manifest) => string): FormatWriter {
+  return {
+    filenames: () => [filename],
+    scopes,
+    render: manifest => [{ filename, contentType, body: render(manifest) }],
+  };
+}
+
+// manifest.xml plus a detached manifest.xml.sig when a signing key is configured
+const xmlWriter: FormatWriter = {
+  filenames: () => [MANIFEST_FILENAME, MANIFEST_SIGNATURE_FILENAME],
+  scopes: ['version', 'channel'],
+  render: (manifest) => {
+    const body = manifestToXml(manifest);
+    const files: RenderedFile[] = [{ filename: MANIFEST_FILENAME, contentType: MANIFEST_CONTENT_TYPE, body }];
+    const key = getManifestSigningKey();
+    if (key) {
+      files.push({
+        filename: MANIFEST_SIGNATURE_FILENAME,
+        contentType: MANIFEST_SIGNATURE_CONTENT_TYPE,
+        body: signManifest(body, key),
+      });
+    }
+    return files;
+  },
+};
+
+const FORMAT_WRITERS: Record<ManifestFormat, FormatWriter> = {
+  xml: xmlWriter,
+  json: singleFile(MANIFEST_JSON_FILENAME, MANIFEST_JSON_CONTENT_TYPE, ['version', 'channel'], manifestToJson),
+  // Updater feeds (Sparkle, electron-updater, Tauri) only make sense for the channel's latest release
+  appcast: singleFile(APPCAST_FILENAME, APPCAST_CONTENT_TYPE, ['channel'], manifestToAppcast),
+  electron: {
+    filenames: allElectronFeedFilenames,
+    scopes: ['channel'],
+    render: manifest => manifestToElectronFeeds(manifest).map(feed => ({
+      filename: feed.filename,
+      contentType: ELECTRON_FEED_CONTENT_TYPE,
+      body: electronFeedToYaml(feed),
+    })),
+  },
+  tauri: singleFile(TAURI_FEED_FILENAME, TAURI_FEED_CONTENT_TYPE, ['channel'], manifestToTauriJson),
+};
+
+export interface RenderedManifest extends RenderedFile {
+  format: ManifestFormat;
+}
+
+export function isManifestFormat(value: string): value is ManifestFormat {
+  return MANIFEST_FORMATS.includes(value as ManifestFormat);
+}
+
+export function parseManifestFormats(values: string[]): ManifestFormat[] {
+  const formats = new Set<ManifestFormat>(DEFAULT_MANIFEST_FORMATS);
+  for (const value of values) {
+    if (!isManifestFormat(value)) {
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid manifest format: ${value}. Supported: ${MANIFEST_FORMATS.join(', ')}`);
+    }
+    formats.add(value);
+  }
+  return MANIFEST_FORMATS.filter(f => formats.has(f));
+}
+
+/**
+ * Enabled formats for a channel: the channel entry, then the "*" entry, then xml only.
+ */
+export function getManifestFormats(channel: string): ManifestFormat[] {
+  const matrix = loadConfig().manifestFormats || {};
+  const values = matrix[channel] ?? matrix['*'];
+  return values ? parseManifestFormats(values) : [...DEFAULT_MANIFEST_FORMATS];
+}
+
+export function renderManifest(
+  manifest: Manifest,
+  formats: ManifestFormat[],
+  scope: ManifestScope = 'version'
+): RenderedManifest[] {
+  return formats
+    .filter(format => FORMAT_WRITERS[format].scopes.includes(scope))
+    .flatMap(format => FORMAT_WRITERS[format].render(manifest).map(file => ({ format, ...file })));
+}
+
+/**
+ * Every file the formats can write, optionally for one scope only. Cleanup goes by this
+ * rather than the enabled formats, so a format dropped from a channel takes its files along.
+ */
+export function allManifestFilenames(scope?: ManifestScope): string[] {
+  return MANIFEST_FORMATS
+    .filter(format => !scope || FORMAT_WRITERS[format].scopes.includes(scope))
+    .flatMap(format => FORMAT_WRITERS[format].filenames());
+}
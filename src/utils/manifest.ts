@@ -1,9 +1,13 @@
-import { XMLBuilder } from 'fast-xml-parser';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { PublisherError } from './errors.js';
+import { getProductName } from './project.js';
 import { getUpdatePolicyFromVersion, sortVersionsDesc } from './versioning.js';
 
 export const MANIFEST_SCHEMA_VERSION = 2;
 export const MANIFEST_FILENAME = 'manifest.xml';
 export const MANIFEST_CONTENT_TYPE = 'application/xml';
+export const MANIFEST_JSON_FILENAME = 'manifest.json';
+export const MANIFEST_JSON_CONTENT_TYPE = 'application/json';
 
 export type Channel = 'stable' | 'beta' | 'alpha';
 export type Distribution = 'direct' | 'store';
@@ -27,6 +31,7 @@ export interface BuildSource {
   version?: string | null;
   sha256?: string | null;
   sha512?: string | null;
+  signature?: string | null;
   fallbackFrom?: string | null;
   external?: boolean;
   metadata?: Record<string, string | number | boolean> | null;
@@ -81,6 +86,7 @@ interface RawBuild {
   createdAt: string;
   sha256Checksum?: string | null;
   sha512Checksum?: string | null;
+  signature?: string | null;
   sourceVersion?: string;
 }
 
@@ -98,6 +104,7 @@ export function mapBuildRow(build: any): RawBuild {
     createdAt: build.created_at,
     sha256Checksum: build.sha256_checksum,
     sha512Checksum: build.sha512_checksum,
+    signature: build.signature,
   };
 }
 
@@ -127,12 +134,29 @@ function toBuildSource(build: RawBuild): BuildSource {
     version: build.sourceVersion ?? null,
     sha256: build.sha256Checksum ?? null,
     sha512: build.sha512Checksum ?? null,
+    signature: build.signature ?? null,
     fallbackFrom: build.platformMetadata?.fallback_from ?? null,
     external: build.platformMetadata?.external ?? false,
     metadata,
   };
 }
 
+/**
+ * The downloadable (direct) source of a build entry, or null when it is store-only.
+ */
+export function directSource(entry: BuildEntry): BuildSource | null {
+  if (entry.distribution === 'direct') return entry;
+  return (entry.sources || []).find(s => s.distribution === 'direct') || null;
+}
+
+/**
+ * The release a build's file belongs to. In a channel manifest a platform can be served by
+ * an older version's build, and a fallback build is a copy of another version's file.
+ */
+export function buildSourceVersion(source: BuildSource, manifest: Manifest): string {
+  return source.fallbackFrom || source.version || manifest.version;
+}
+
 export function buildPlatforms(rawBuilds: RawBuild[]): PlatformEntry[] {
   // os -> arch -> variant -> type -> sources[]
   const tree = new Map<string, Map<string, Map<string, Map<BuildType, BuildSource[]>>>>();
@@ -183,7 +207,7 @@ export function assembleVersionManifest(versionData: any, builds: any[]): Manife
   const platforms = buildPlatforms((builds || []).map(mapBuildRow));
   return {
     schemaVersion: MANIFEST_SCHEMA_VERSION,
-    name: 'App',
+    name: getProductName(),
     version: versionData.version_name,
     channel: versionData.release_channel,
     releaseDate: versionData.release_date,
@@ -221,7 +245,7 @@ export function assembleChannelLatestManifest(
 
   return {
     schemaVersion: MANIFEST_SCHEMA_VERSION,
-    name: 'App',
+    name: getProductName(),
     version: latest.version_name,
     channel: latest.release_channel,
     releaseDate: latest.release_date,
@@ -252,6 +276,7 @@ function buildSourceAttrs(src: BuildSource): Record<string, any> {
   attrIfPresent(src.version, 'version', obj);
   attrIfPresent(src.sha256, 'sha256', obj);
   attrIfPresent(src.sha512, 'sha512', obj);
+  attrIfPresent(src.signature, 'signature', obj);
   attrIfPresent(src.fallbackFrom, 'fallbackFrom', obj);
   if (src.external) obj['@_external'] = 'true';
   return obj;
@@ -340,3 +365,277 @@ export function manifestToXml(manifest: Manifest): string {
   const body = xmlBuilder.build(builderObj);
   return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
 }
+
+// JSON serialization (mirrors manifest.xsd; see manifest.schema.json)
+
+function compact<T extends Record<string, any>>(obj: T): Partial<T> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === 'string' && value.length === 0) continue;
+    out[key] = value;
+  }
+  return out as Partial<T>;
+}
+
+function buildSourceJson(src: BuildSource): Record<string, any> {
+  const metadataEntries = Object.entries(src.metadata || {})
+    .filter(([, v]) => v !== null && v !== undefined && v !== '');
+  const metadata = metadataEntries.length > 0 ? Object.fromEntries(metadataEntries) : null;
+  return compact({
+    type: src.type,
+    distribution: src.distribution,
+    url: src.url,
+    size: src.size,
+    packageName: src.packageName,
+    releaseDate: src.releaseDate,
+    version: src.version,
+    sha256: src.sha256,
+    sha512: src.sha512,
+    signature: src.signature,
+    fallbackFrom: src.fallbackFrom,
+    external: src.external ? true : null,
+    metadata,
+  });
+}
+
+export function manifestToJsonObject(m: Manifest): Record<string, any> {
+  return compact({
+    schemaVersion: m.schemaVersion,
+    name: m.name,
+    version: m.version,
+    channel: m.channel,
+    releaseDate: m.releaseDate,
+    mandatory: m.mandatory,
+    releaseNotes: m.releaseNotes,
+    changelog: m.changelog,
+    updatePolicy: compact({
+      channel: m.updatePolicy.channel,
+      rolloutPercentage: m.updatePolicy.rolloutPercentage,
+      minSupportedVersion: m.updatePolicy.minSupportedVersion,
+      rolloutStartAt: m.updatePolicy.rolloutStartAt,
+      rolloutEndAt: m.updatePolicy.rolloutEndAt,
+    }),
+    platforms: m.platforms.map((p) => ({
+      os: p.os,
+      archs: p.archs.map((a) => ({
+        name: a.name,
+        variants: a.variants.map((v) => ({
+          name: v.name,
+          builds: Object.values(v.builds).map((entry) => {
+            const obj = buildSourceJson(entry!);
+            if (entry!.sources && entry!.sources.length > 0) {
+              obj.sources = entry!.sources.map(buildSourceJson);
+            }
+            return obj;
+          }),
+        })),
+      })),
+    })),
+  });
+}
+
+export function manifestToJson(manifest: Manifest): string {
+  return JSON.stringify(manifestToJsonObject(manifest), null, 2) + '\n';
+}
+
+// XML parsing (inverse of manifestToXml)
+
+const REPEATED_ELEMENTS = new Set(['platform', 'arch', 'variant', 'build', 'source', 'entry']);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: false,
+  cdataPropName: '#cdata',
+  isArray: (tagName, _jPath, _isLeaf, isAttribute) => !isAttribute && REPEATED_ELEMENTS.has(tagName),
+});
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isNaN(n) ? null : n;
+}
+
+function textOf(node: unknown): string | null {
+  if (node === undefined || node === null) return null;
+  if (typeof node === 'string') return node.trim();
+  // manifestToXml writes notes as CDATA; fall back to plain text for hand-written files
+  const obj = node as Record<string, unknown>;
+  if (obj['#cdata'] !== undefined) return String(obj['#cdata']);
+  if (obj['#text'] !== undefined) return String(obj['#text']).trim();
+  return null;
+}
+
+function parseMetadataElement(node: any): Record<string, string> | null {
+  const entries: any[] = node?.entry || [];
+  if (entries.length === 0) return null;
+  const out: Record<string, string> = {};
+  for (const entry of entries) {
+    out[entry['@_key']] = entry['@_value'];
+  }
+  return out;
+}
+
+function parseBuildSource(node: any): BuildSource {
+  return {
+    url: node['@_url'],
+    size: toNumberOrNull(node['@_size']),
+    packageName: node['@_packageName'] ?? null,
+    releaseDate: node['@_releaseDate'],
+    type: node['@_type'],
+    distribution: node['@_distribution'],
+    version: node['@_version'] ?? null,
+    sha256: node['@_sha256'] ?? null,
+    sha512: node['@_sha512'] ?? null,
+    signature: node['@_signature'] ?? null,
+    fallbackFrom: node['@_fallbackFrom'] ?? null,
+    external: node['@_external'] === 'true',
+    metadata: parseMetadataElement(node.metadata),
+  };
+}
+
+export function parseManifestXml(xml: string): Manifest {
+  const root = xmlParser.parse(xml)?.manifest;
+  if (!root) {
+    throw new PublisherError('INVALID_MANIFEST', 'Invalid manifest: missing <manifest> root element');
+  }
+
+  const policy = root.updatePolicy || {};
+  const platforms: PlatformEntry[] = (root.platforms?.platform || []).map((p: any) => ({
+    os: p['@_os'],
+    archs: (p.arch || []).map((a: any) => ({
+      name: a['@_name'],
+      variants: (a.variant || []).map((v: any) => {
+        const builds: Partial<Record<BuildType, BuildEntry>> = {};
+        for (const b of v.build || []) {
+          const entry: BuildEntry = parseBuildSource(b);
+          if (b.source && b.source.length > 0) {
+            entry.sources = b.source.map(parseBuildSource);
+          }
+          builds[entry.type] = entry;
+        }
+        return { name: v['@_name'], builds };
+      }),
+    })),
+  }));
+
+  return {
+    schemaVersion: toNumberOrNull(root['@_schemaVersion']) ?? MANIFEST_SCHEMA_VERSION,
+    name: root['@_name'],
+    version: root['@_version'],
+    channel: root['@_channel'],
+    releaseDate: root['@_releaseDate'],
+    mandatory: root['@_mandatory'] === 'true',
+    releaseNotes: textOf(root.releaseNotes),
+    changelog: textOf(root.changelog),
+    updatePolicy: {
+      channel: policy['@_channel'],
+      rolloutPercentage: toNumberOrNull(policy['@_rolloutPercentage']) ?? 100,
+      minSupportedVersion: policy['@_minSupportedVersion'] ?? null,
+      rolloutStartAt: policy['@_rolloutStartAt'] ?? null,
+      rolloutEndAt: policy['@_rolloutEndAt'] ?? null,
+    },
+    platforms,
+  };
+}
+
+// Structured diff
+
+export interface ManifestChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: string | number | boolean | null;
+  after?: string | number | boolean | null;
+}
+
+type FlatValue = string | number | boolean;
+
+function flattenSource(prefix: string, src: BuildSource, out: Map<string, FlatValue>) {
+  const fields: Array<[string, unknown]> = [
+    ['url', src.url],
+    ['size', src.size],
+    ['packageName', src.packageName],
+    ['releaseDate', src.releaseDate],
+    ['version', src.version],
+    ['sha256', src.sha256],
+    ['sha512', src.sha512],
+    ['signature', src.signature],
+    ['fallbackFrom', src.fallbackFrom],
+    ['external', src.external || null],
+  ];
+  for (const [key, value] of fields) {
+    if (value !== null && value !== undefined && value !== '') out.set(`${prefix}.${key}`, value as FlatValue);
+  }
+  for (const [key, value] of Object.entries(src.metadata || {})) {
+    out.set(`${prefix}.metadata.${key}`, value);
+  }
+}
+
+/**
+ * Flatten a manifest into path → value pairs, e.g.
+ * `platforms.macos.arm64.default.installer.url`. Alternative sources are keyed
+ * by distribution: `platforms.android.arm64.default.installer.sources.store.url`.
+ */
+export function flattenManifest(m: Manifest): Map<string, FlatValue> {
+  const out = new Map<string, FlatValue>();
+  const top: Array<[string, unknown]> = [
+    ['schemaVersion', m.schemaVersion],
+    ['name', m.name],
+    ['version', m.version],
+    ['channel', m.channel],
+    ['releaseDate', m.releaseDate],
+    ['mandatory', m.mandatory],
+    ['releaseNotes', m.releaseNotes],
+    ['changelog', m.changelog],
+    ['updatePolicy.channel', m.updatePolicy.channel],
+    ['updatePolicy.rolloutPercentage', m.updatePolicy.rolloutPercentage],
+    ['updatePolicy.minSupportedVersion', m.updatePolicy.minSupportedVersion],
+    ['updatePolicy.rolloutStartAt', m.updatePolicy.rolloutStartAt],
+    ['updatePolicy.rolloutEndAt', m.updatePolicy.rolloutEndAt],
+  ];
+  for (const [key, value] of top) {
+    if (value !== null && value !== undefined && value !== '') out.set(key, value as FlatValue);
+  }
+
+  for (const p of m.platforms) {
+    for (const a of p.archs) {
+      for (const v of a.variants) {
+        for (const [type, entry] of Object.entries(v.builds)) {
+          if (!entry) continue;
+          const prefix = `platforms.${p.os}.${a.name}.${v.name}.${type}`;
+          flattenSource(prefix, entry, out);
+          out.set(`${prefix}.distribution`, entry.distribution);
+          for (const src of entry.sources || []) {
+            flattenSource(`${prefix}.sources.${src.distribution}`, src, out);
+          }
+        }
+      }
+    }
+  }
+
+  return out;
+}
+
+export function diffManifests(before: Manifest | null, after: Manifest): ManifestChange[] {
+  const a = before ? flattenManifest(before) : new Map<string, FlatValue>();
+  const b = flattenManifest(after);
+  const changes: ManifestChange[] = [];
+
+  for (const [path, value] of a) {
+    if (!b.has(path)) {
+      changes.push({ path, kind: 'removed', before: value });
+    } else if (String(b.get(path)) !== String(value)) {
+      changes.push({ path, kind: 'changed', before: value, after: b.get(path) });
+    }
+  }
+  for (const [path, value] of b) {
+    if (!a.has(path)) {
+      changes.push({ path, kind: 'added', after: value });
+    }
+  }
+
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
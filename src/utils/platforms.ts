@@ -0,0 +1,142 @@
+import { loadConfig } from './config.js';
+import { getProjectPlatformMatrix } from './project.js';
+import { PublisherError } from './errors.js';
+import {
+  assertValidPlatform,
+  isSupportedDistribution,
+  isValidVariant,
+  SUPPORTED_DISTRIBUTIONS,
+} from './versioning.js';
+
+export const ANY_CHANNEL = '*';
+export const ANY_VALUE = '*';
+
+export interface PlatformRequirement {
+  os: string;
+  arch: string;
+  type: string;
+  variant?: string;
+  distribution?: string;
+}
+
+// Used when neither the channel nor the "*" entry of the configured matrix is set
+// (installer is required, patch is optional).
+export const DEFAULT_REQUIRED_PLATFORMS: PlatformRequirement[] = [
+  // macOS
+  { os: 'macos', arch: 'arm64', type: 'installer' },
+  { os: 'macos', arch: 'x64', type: 'installer' },
+  // Windows
+  { os: 'windows', arch: 'x64', type: 'installer' },
+  // Linux
+  { os: 'linux', arch: 'x64', type: 'installer' },
+  // Mobile
+  { os: 'ios', arch: 'arm64', type: 'installer' },
+  { os: 'android', arch: 'arm64', type: 'installer' },
+];
+
+/**
+ * Parse a requirement spec: `os/arch/type[/variant[/distribution]]`.
+ * Omitted or `*` variant/distribution segments match any build.
+ */
+export function parsePlatformRequirement(spec: string): PlatformRequirement {
+  const parts = spec.trim().split('/');
+  if (parts.length < 3 || parts.length > 5 || parts.some(p => !p)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid platform spec: "${spec}". Expected format: os/arch/type[/variant[/distribution]]`);
+  }
+
+  const [os, arch, type, variant, distribution] = parts;
+  assertValidPlatform(os, arch, type);
+
+  const requirement: PlatformRequirement = { os, arch, type };
+
+  if (variant && variant !== ANY_VALUE) {
+    if (!isValidVariant(variant)) {
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid variant in platform spec "${spec}": ${variant}`);
+    }
+    requirement.variant = variant;
+  }
+
+  if (distribution && distribution !== ANY_VALUE) {
+    if (!isSupportedDistribution(distribution)) {
+      throw new PublisherError('INVALID_ARGUMENT', `Invalid distribution in platform spec "${spec}": ${distribution}. Supported: ${SUPPORTED_DISTRIBUTIONS.join(', ')}`);
+    }
+    requirement.distribution = distribution;
+  }
+
+  return requirement;
+}
+
+export function formatPlatformRequirement(req: PlatformRequirement): string {
+  const parts = [req.os, req.arch, req.type];
+  if (req.variant || req.distribution) parts.push(req.variant || ANY_VALUE);
+  if (req.distribution) parts.push(req.distribution);
+  return parts.join('/');
+}
+
+function dedupe(requirements: PlatformRequirement[]): PlatformRequirement[] {
+  const seen = new Map<string, PlatformRequirement>();
+  for (const req of requirements) {
+    seen.set(formatPlatformRequirement(req), req);
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Configured matrix for a channel: the project file's channel and "*" entries, then the
+ * global config's, then the built-in defaults.
+ */
+export function getConfiguredPlatforms(channel: string): PlatformRequirement[] {
+  const project = getProjectPlatformMatrix();
+  const matrix = loadConfig().requiredPlatforms || {};
+  const specs = project[channel] ?? project[ANY_CHANNEL] ?? matrix[channel] ?? matrix[ANY_CHANNEL];
+  if (!specs) return [...DEFAULT_REQUIRED_PLATFORMS];
+  return dedupe(specs.map(parsePlatformRequirement));
+}
+
+/**
+ * Apply per-run `--require` overrides to a matrix:
+ *   - `none`   clears the matrix
+ *   - `spec`   plain specs replace the matrix
+ *   - `+spec`  adds to the matrix
+ *   - `-spec`  removes a matching entry from the matrix
+ */
+export function applyRequireOverrides(base: PlatformRequirement[], overrides: string[] = []): PlatformRequirement[] {
+  if (overrides.length === 0) return base;
+
+  const plain: PlatformRequirement[] = [];
+  const added: PlatformRequirement[] = [];
+  const removed = new Set<string>();
+  let cleared = false;
+
+  for (const raw of overrides) {
+    const value = raw.trim();
+    if (value === 'none') {
+      cleared = true;
+    } else if (value.startsWith('+')) {
+      added.push(parsePlatformRequirement(value.slice(1)));
+    } else if (value.startsWith('-')) {
+      removed.add(formatPlatformRequirement(parsePlatformRequirement(value.slice(1))));
+    } else {
+      plain.push(parsePlatformRequirement(value));
+    }
+  }
+
+  const start = cleared ? [] : plain.length > 0 ? plain : base;
+  return dedupe([...start, ...added]).filter(req => !removed.has(formatPlatformRequirement(req)));
+}
+
+export function resolveRequiredPlatforms(channel: string, overrides?: string[]): PlatformRequirement[] {
+  return applyRequireOverrides(getConfiguredPlatforms(channel), overrides);
+}
+
+export function buildSatisfiesRequirement(build: any, req: PlatformRequirement): boolean {
+  return build.os === req.os &&
+    build.arch === req.arch &&
+    build.type === req.type &&
+    (!req.variant || (build.variant || 'default') === req.variant) &&
+    (!req.distribution || (build.distribution || 'direct') === req.distribution);
+}
+
+export function findMissingPlatforms(requirements: PlatformRequirement[], builds: any[]): PlatformRequirement[] {
+  return requirements.filter(req => !builds.some(b => buildSatisfiesRequirement(b, req)));
+}
@@ -0,0 +1,148 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { PublisherError } from './errors.js';
+import { compileFilenamePattern } from './filenames.js';
+import { isSupportedChannel, SUPPORTED_CHANNELS } from './versioning.js';
+
+// Per-repository release settings, discovered by walking up from the working directory.
+// They sit between CLI flags (which win) and the global config (which they override).
+export const PROJECT_CONFIG_FILES = ['publisher.config.json', '.publisherrc'] as const;
+
+export const DEFAULT_PRODUCT_NAME = 'App';
+
+export interface ProjectConfig {
+  // Product name written into manifests
+  name?: string;
+  // Channel used when --channel is not passed
+  channel?: string;
+  // Build filename template, e.g. "{product}_{version}_{os}_{arch}.{ext}"
+  filenamePattern?: string;
+  // Specs for every channel, or per channel (with "*" for all) like config:platforms
+  requiredPlatforms?: string[] | Record<string, string[]>;
+  // Custom build metadata merged under --meta
+  metadata?: Record<string, string>;
+}
+
+export interface LoadedProjectConfig {
+  file: string | null;
+  config: ProjectConfig;
+}
+
+// Set by the SDK so embedded use never reads files from the working directory
+let injectedProject: ProjectConfig | null = null;
+const cache = new Map<string, LoadedProjectConfig>();
+
+export function useProjectConfig(config: ProjectConfig | null) {
+  injectedProject = config;
+}
+
+export function findProjectConfigFile(from: string = process.cwd()): string | null {
+  let dir = resolve(from);
+  for (;;) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function invalid(file: string, message: string): PublisherError {
+  return new PublisherError('INVALID_ARGUMENT', `${file}: ${message}`, { file });
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validate(file: string, raw: any): ProjectConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw invalid(file, 'expected a JSON object');
+  }
+
+  if (raw.name !== undefined && (typeof raw.name !== 'string' || !raw.name.trim())) {
+    throw invalid(file, '"name" must be a non-empty string');
+  }
+  if (raw.channel !== undefined && (typeof raw.channel !== 'string' || !isSupportedChannel(raw.channel))) {
+    throw invalid(file, `"channel" must be one of ${SUPPORTED_CHANNELS.join(', ')}`);
+  }
+  if (raw.filenamePattern !== undefined) {
+    if (typeof raw.filenamePattern !== 'string') {
+      throw invalid(file, '"filenamePattern" must be a string');
+    }
+    try {
+      compileFilenamePattern(raw.filenamePattern);
+    } catch (error: any) {
+      throw invalid(file, error.message);
+    }
+  }
+  if (raw.requiredPlatforms !== undefined) {
+    const valid = isStringArray(raw.requiredPlatforms) ||
+      (typeof raw.requiredPlatforms === 'object' && !Array.isArray(raw.requiredPlatforms) && Object.values(raw.requiredPlatforms).every(isStringArray));
+    if (!valid) {
+      throw invalid(file, '"requiredPlatforms" must be a list of specs or an object of channel → specs');
+    }
+  }
+  if (raw.metadata !== undefined) {
+    const valid = typeof raw.metadata === 'object' && !Array.isArray(raw.metadata) && raw.metadata !== null &&
+      Object.values(raw.metadata).every(value => typeof value === 'string');
+    if (!valid) {
+      throw invalid(file, '"metadata" must be an object of string values');
+    }
+  }
+
+  return {
+    name: raw.name,
+    channel: raw.channel,
+    filenamePattern: raw.filenamePattern,
+    requiredPlatforms: raw.requiredPlatforms,
+    metadata: raw.metadata,
+  };
+}
+
+/**
+ * The nearest project file (cached per directory). Throws INVALID_ARGUMENT when it is
+ * not valid JSON or declares values of the wrong shape.
+ */
+export function loadProjectConfig(from: string = process.cwd()): LoadedProjectConfig {
+  if (injectedProject) {
+    return { file: null, config: { ...injectedProject } };
+  }
+
+  const cached = cache.get(from);
+  if (cached) return cached;
+
+  const file = findProjectConfigFile(from);
+  let loaded: LoadedProjectConfig = { file: null, config: {} };
+  if (file) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error: any) {
+      throw invalid(file, `not valid JSON (${error.message})`);
+    }
+    loaded = { file, config: validate(file, raw) };
+  }
+
+  cache.set(from, loaded);
+  return loaded;
+}
+
+export function getProjectConfig(): ProjectConfig {
+  return loadProjectConfig().config;
+}
+
+export function getProductName(): string {
+  return getProjectConfig().name || DEFAULT_PRODUCT_NAME;
+}
+
+/**
+ * Project requiredPlatforms as a channel matrix (a plain list applies to every channel).
+ */
+export function getProjectPlatformMatrix(): Record<string, string[]> {
+  const value = getProjectConfig().requiredPlatforms;
+  if (!value) return {};
+  return Array.isArray(value) ? { '*': value } : value;
+}
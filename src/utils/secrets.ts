@@ -0,0 +1,66 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// Secret config values are sealed with AES-256-GCM under a key derived from a passphrase
+// with scrypt. The salt and cost parameters live in the config file next to a verifier,
+// so a wrong passphrase is detected before any value is decrypted.
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const VERIFIER_PLAINTEXT = 'publisher-config';
+
+export interface EncryptionHeader {
+  kdf: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  verifier: string;
+}
+
+const DEFAULT_COST = { N: 2 ** 15, r: 8, p: 1 };
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function deriveKey(passphrase: string, header: Pick<EncryptionHeader, 'salt' | 'N' | 'r' | 'p'>): Buffer {
+  const { N, r, p } = header;
+  return scryptSync(passphrase, Buffer.from(header.salt, 'base64'), KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+}
+
+export function encryptValue(key: Buffer, plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Throws when the key is wrong or the value was tampered with (GCM authentication).
+ */
+export function decryptValue(key: Buffer, value: string): string {
+  const raw = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+}
+
+/**
+ * A fresh salt for a new passphrase, with its key.
+ */
+export function createEncryptionHeader(passphrase: string): { header: EncryptionHeader; key: Buffer } {
+  const params = { salt: randomBytes(16).toString('base64'), ...DEFAULT_COST };
+  const key = deriveKey(passphrase, params);
+  return { header: { kdf: 'scrypt', ...params, verifier: encryptValue(key, VERIFIER_PLAINTEXT) }, key };
+}
+
+export function verifyKey(header: EncryptionHeader, key: Buffer): boolean {
+  try {
+    return decryptValue(key, header.verifier) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+import { createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { PublisherError } from './errors.js';
+import { loadConfig } from './config.js';
+
+export const MANIFEST_SIGNATURE_FILENAME = 'manifest.xml.sig';
+export const MANIFEST_SIGNATURE_CONTENT_TYPE = 'text/plain';
+
+// DER prefixes that wrap a raw 32-byte Ed25519 key as PKCS#8 / SPKI
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function decodeRawKey(value: string, label: string): Buffer {
+  const raw = Buffer.from(value.trim(), 'base64');
+  if (raw.length !== 32) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid ${label}: expected a PEM key or a base64-encoded 32-byte Ed25519 key`);
+  }
+  return raw;
+}
+
+function assertEd25519(key: KeyObject, label: string): KeyObject {
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid ${label}: expected an Ed25519 key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/**
+ * Parse an Ed25519 private key given as PEM (PKCS#8) or as a base64 32-byte seed.
+ */
+export function parseSigningKey(value: string): KeyObject {
+  const label = 'manifest signing key';
+  if (value.includes('-----BEGIN')) {
+    return assertEd25519(createPrivateKey(value), label);
+  }
+  const der = Buffer.concat([ED25519_PKCS8_PREFIX, decodeRawKey(value, label)]);
+  return createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+}
+
+/**
+ * Parse an Ed25519 public key given as PEM (SPKI) or as a base64 32-byte key.
+ */
+export function parsePublicKey(value: string): KeyObject {
+  const label = 'manifest public key';
+  if (value.includes('-----BEGIN')) {
+    return assertEd25519(createPublicKey(value), label);
+  }
+  const der = Buffer.concat([ED25519_SPKI_PREFIX, decodeRawKey(value, label)]);
+  return createPublicKey({ key: der, format: 'der', type: 'spki' });
+}
+
+// PEM keys stored in .env or config often carry escaped newlines
+function normalizeKeyValue(value: string): string {
+  return value.replace(/\\n/g, '\n');
+}
+
+export function getManifestSigningKey(): KeyObject | null {
+  const value = process.env.MANIFEST_SIGNING_KEY || loadConfig().MANIFEST_SIGNING_KEY;
+  return value ? parseSigningKey(normalizeKeyValue(value)) : null;
+}
+
+export function getManifestPublicKey(override?: string): KeyObject | null {
+  const value = override || process.env.MANIFEST_PUBLIC_KEY || loadConfig().MANIFEST_PUBLIC_KEY;
+  return value ? parsePublicKey(normalizeKeyValue(value)) : null;
+}
+
+/**
+ * Detached Ed25519 signature over the exact manifest bytes, base64-encoded.
+ */
+export function signManifest(body: string, key: KeyObject): string {
+  return sign(null, Buffer.from(body, 'utf-8'), key).toString('base64');
+}
+
+export function verifyManifestSignature(body: string | Buffer, signature: string, key: KeyObject): boolean {
+  const data = typeof body === 'string' ? Buffer.from(body, 'utf-8') : body;
+  const sig = Buffer.from(signature.trim(), 'base64');
+  if (sig.length !== 64) return false;
+  return verify(null, data, key, sig);
+}
@@ -0,0 +1,75 @@
+import { buildSourceVersion, directSource, Manifest } from './manifest.js';
+import { DEFAULT_VARIANT, SupportedArch, SupportedOs } from './versioning.js';
+
+export const TAURI_FEED_FILENAME = 'latest.json';
+export const TAURI_FEED_CONTENT_TYPE = 'application/json';
+
+// Tauri has no mobile updater, so ios and android have no target
+const TAURI_OS: Partial<Record<SupportedOs, string>> = {
+  macos: 'darwin',
+  windows: 'windows',
+  linux: 'linux',
+};
+
+const TAURI_ARCH: Record<SupportedArch, string> = {
+  arm64: 'aarch64',
+  armv7: 'armv7',
+  x64: 'x86_64',
+  x86: 'i686',
+};
+
+export interface TauriPlatform {
+  url: string;
+  signature: string;
+}
+
+export interface TauriFeed {
+  version: string;
+  notes?: string;
+  pub_date: string;
+  platforms: Record<string, TauriPlatform>;
+}
+
+/**
+ * Tauri updater target for an OS/arch pair, e.g. macos/arm64 → darwin-aarch64.
+ */
+export function tauriTarget(os: string, arch: string): string | null {
+  const tauriOs = TAURI_OS[os as SupportedOs];
+  const tauriArch = TAURI_ARCH[arch as SupportedArch];
+  return tauriOs && tauriArch ? `${tauriOs}-${tauriArch}` : null;
+}
+
+/**
+ * Build the Tauri v2 updater feed from the direct installers of the default variant.
+ * Builds without a stored signature are left out since Tauri rejects unsigned entries, and so
+ * are platforms still served by an older release: the feed has a single version, and a client
+ * installing an older build under it would be offered the same update again.
+ */
+export function manifestToTauriFeed(manifest: Manifest): TauriFeed {
+  const platforms: Record<string, TauriPlatform> = {};
+
+  for (const platform of manifest.platforms) {
+    for (const arch of platform.archs) {
+      const target = tauriTarget(platform.os, arch.name);
+      if (!target) continue;
+
+      const variant = arch.variants.find(v => v.name === DEFAULT_VARIANT);
+      const installer = variant?.builds.installer;
+      const direct = installer ? directSource(installer) : null;
+      if (!direct?.signature || buildSourceVersion(direct, manifest) !== manifest.version) continue;
+
+      platforms[target] = { url: direct.url, signature: direct.signature };
+    }
+  }
+
+  return {
+    version: manifest.version,
+    ...(manifest.releaseNotes ? { notes: manifest.releaseNotes } : {}),
+    pub_date: manifest.releaseDate,
+    platforms,
+  };
+}
+
+export function manifestToTauriJson(manifest: Manifest): string {
+  return JSON.stringify(manifestToTauriFeed(manifest), null, 2) + '\n';
+}
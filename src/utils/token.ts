@@ -0,0 +1,102 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { PublisherError } from './errors.js';
+
+// APP_PUBLISHER_KEY is a Supabase JWT: PostgREST and Storage read the role claim and
+// check the signature against the project's JWT secret.
+
+// Only the role created in 0001_initial.sql; service_role tokens bypass row-level security
+export const MINTABLE_ROLES = ['app_publisher'] as const;
+export const DEFAULT_TOKEN_ROLE = 'app_publisher';
+export const TOKEN_ISSUER = 'publisher-cli';
+
+export const EXPIRY_WARNING_DAYS = 14;
+
+export interface TokenClaims {
+  role?: string;
+  iss?: string;
+  sub?: string;
+  ref?: string;
+  iat?: number;
+  exp?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export type ExpiryStatus = 'valid' | 'expiring' | 'expired' | 'no-expiry';
+
+export interface TokenExpiry {
+  status: ExpiryStatus;
+  expiresAt: Date | null;
+  // Seconds until exp; negative once it has passed
+  remaining: number | null;
+}
+
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+export function decodeToken(token: string): { algorithm: string; claims: TokenClaims } {
+  const decoded = jwt.decode(token.trim(), { complete: true });
+  if (!decoded || typeof decoded.payload !== 'object') {
+    throw new PublisherError('INVALID_ARGUMENT', 'Not a JWT: expected three base64url segments with a JSON payload');
+  }
+  return { algorithm: decoded.header.alg, claims: decoded.payload as TokenClaims };
+}
+
+/**
+ * Throws SIGNATURE_INVALID when the token was not signed with this secret. Expiry is
+ * reported separately, so an expired token with a good signature still verifies.
+ */
+export function verifyTokenSignature(token: string, secret: string) {
+  try {
+    jwt.verify(token.trim(), secret, { ignoreExpiration: true });
+  } catch (error: any) {
+    throw new PublisherError('SIGNATURE_INVALID', `Token signature does not match the JWT secret: ${error.message}`);
+  }
+}
+
+export function getTokenExpiry(claims: TokenClaims, warnDays: number = EXPIRY_WARNING_DAYS, now: Date = new Date()): TokenExpiry {
+  if (typeof claims.exp !== 'number') {
+    return { status: 'no-expiry', expiresAt: null, remaining: null };
+  }
+  const remaining = claims.exp - Math.floor(now.getTime() / 1000);
+  const status = remaining <= 0 ? 'expired' : remaining <= warnDays * TTL_UNITS.d ? 'expiring' : 'valid';
+  return { status, expiresAt: new Date(claims.exp * 1000), remaining };
+}
+
+/**
+ * "90s", "15m", "1h", "7d" → seconds.
+ */
+export function parseTtl(ttl: string): number {
+  const match = ttl.trim().match(/^(\d+)\s*([smhd])$/);
+  const seconds = match ? parseInt(match[1], 10) * TTL_UNITS[match[2]] : 0;
+  if (seconds <= 0) {
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid TTL: ${ttl} (use a number with s, m, h or d, e.g. 1h)`);
+  }
+  return seconds;
+}
+
+export function formatDuration(seconds: number): string {
+  const abs = Math.abs(seconds);
+  if (abs >= TTL_UNITS.d) return `${Math.floor(abs / TTL_UNITS.d)}d ${Math.floor((abs % TTL_UNITS.d) / TTL_UNITS.h)}h`;
+  if (abs >= TTL_UNITS.h) return `${Math.floor(abs / TTL_UNITS.h)}h ${Math.floor((abs % TTL_UNITS.h) / TTL_UNITS.m)}m`;
+  if (abs >= TTL_UNITS.m) return `${Math.floor(abs / TTL_UNITS.m)}m`;
+  return `${abs}s`;
+}
+
+export function mintToken(options: { role: string; ttlSeconds: number; secret: string }): string {
+  if (!(MINTABLE_ROLES as readonly string[]).includes(options.role)) {
+    throw new PublisherError('INVALID_ARGUMENT', `Cannot mint a token for role ${options.role}. Allowed: ${MINTABLE_ROLES.join(', ')}`, {
+      roles: [...MINTABLE_ROLES],
+    });
+  }
+  if (!options.secret) {
+    throw new PublisherError('INVALID_ARGUMENT', 'The JWT secret cannot be empty');
+  }
+  // jti makes every CI token distinguishable in logs
+  return jwt.sign({ role: options.role }, options.secret, {
+    algorithm: 'HS256',
+    expiresIn: options.ttlSeconds,
+    issuer: TOKEN_ISSUER,
+    jwtid: randomUUID(),
+  });
+}
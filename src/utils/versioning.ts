@@ -1,4 +1,5 @@
 import semver from 'semver';
+import { PublisherError } from './errors.js';
 
 export const SUPPORTED_OS = ['macos', 'windows', 'linux', 'ios', 'android'] as const;
 export const SUPPORTED_ARCH = ['arm64', 'armv7', 'x64', 'x86'] as const;
@@ -62,15 +63,15 @@ export function isSupportedChannel(value: string): value is SupportedChannel {
 
 export function assertValidPlatform(os: string, arch: string, type?: string): void {
   if (!isSupportedOs(os)) {
-    throw new Error(`Invalid os: ${os}. Supported: ${SUPPORTED_OS.join(', ')}`);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid os: ${os}. Supported: ${SUPPORTED_OS.join(', ')}`);
   }
 
   if (!isSupportedArch(arch)) {
-    throw new Error(`Invalid arch: ${arch}. Supported: ${SUPPORTED_ARCH.join(', ')}`);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid arch: ${arch}. Supported: ${SUPPORTED_ARCH.join(', ')}`);
   }
 
   if (type && !isSupportedBuildType(type)) {
-    throw new Error(`Invalid type: ${type}. Supported: ${SUPPORTED_BUILD_TYPES.join(', ')}`);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid type: ${type}. Supported: ${SUPPORTED_BUILD_TYPES.join(', ')}`);
   }
 }
 
@@ -147,7 +148,7 @@ export function buildVersionMetadataWithPolicy(existingMetadata: unknown, policy
 
 export function validateSemverOrThrow(value: string, label: string): void {
   if (!semver.valid(value)) {
-    throw new Error(`Invalid semantic version for ${label}: ${value}`);
+    throw new PublisherError('INVALID_ARGUMENT', `Invalid semantic version for ${label}: ${value}`);
   }
 }
 